@@ -0,0 +1,113 @@
+import * as vscode from "vscode";
+import { ACHIEVEMENTS, AchievementDef, AchievementMetric } from "./catalog";
+import { AchievementView } from "../types";
+import { StateWriter } from "../state/StateWriter";
+
+export type ActivityDelta = {
+  chars?: number;
+  newlines?: number;
+  deletes?: number;
+  linesDeleted?: number;
+  saves?: number;
+};
+
+type Counters = Record<AchievementMetric, number>;
+
+const SESSION_METRICS: AchievementMetric[] = ["sessionLinesDeleted"];
+
+// Hours (local time) that count as "past midnight"
+const LATE_NIGHT_FROM = 0;
+const LATE_NIGHT_TO = 4;
+
+export class AchievementService {
+  private readonly context: vscode.ExtensionContext;
+  private readonly writer: StateWriter;
+  private unlocked: Record<string, number> = {};
+  private counters!: Counters;
+  private readonly unlockEmitter = new vscode.EventEmitter<AchievementDef>();
+  readonly onDidUnlock = this.unlockEmitter.event;
+
+  constructor(context: vscode.ExtensionContext, writer: StateWriter) {
+    this.context = context;
+    this.writer = writer;
+    this.reload();
+  }
+
+  // Re-read persisted unlocks and lifetime counters; session counters are kept
+  reload() {
+    this.writer.discard("achievements", "achievementCounters");
+    this.unlocked = this.context.globalState.get<Record<string, number>>("achievements", {});
+    const stored = this.context.globalState.get<Partial<Counters>>("achievementCounters", {});
+    const session = this.counters;
+    this.counters = {
+      totalChars: 0,
+      totalNewlines: 0,
+      totalDeletes: 0,
+      totalSaves: 0,
+      sessionLinesDeleted: 0,
+      lateNightEdits: 0,
+      level: 1,
+      bestCombo: 0,
+      ...stored
+    };
+    for (const m of SESSION_METRICS) this.counters[m] = session?.[m] ?? 0;
+  }
+
+  get all(): AchievementView[] {
+    return ACHIEVEMENTS.map(a => ({
+      id: a.id,
+      title: a.title,
+      description: a.description,
+      icon: a.icon,
+      unlockedAt: this.unlocked[a.id]
+    }));
+  }
+
+  get unlockedCount(): number {
+    return Object.keys(this.unlocked).length;
+  }
+
+  // Feed activity from the edit stream
+  record(delta: ActivityDelta) {
+    this.counters.totalChars += delta.chars ?? 0;
+    this.counters.totalNewlines += delta.newlines ?? 0;
+    this.counters.totalDeletes += delta.deletes ?? 0;
+    this.counters.totalSaves += delta.saves ?? 0;
+    this.counters.sessionLinesDeleted += delta.linesDeleted ?? 0;
+    const hour = new Date().getHours();
+    if (hour >= LATE_NIGHT_FROM && hour < LATE_NIGHT_TO) this.counters.lateNightEdits += 1;
+    this.evaluate();
+  }
+
+  // Feed progression state from XPService and the combo tracker
+  observe(state: { level?: number; combo?: number }) {
+    if (state.level !== undefined) this.counters.level = Math.max(this.counters.level, state.level);
+    if (state.combo !== undefined) this.counters.bestCombo = Math.max(this.counters.bestCombo, state.combo);
+    this.evaluate();
+  }
+
+  dispose() {
+    this.unlockEmitter.dispose();
+  }
+
+  private evaluate() {
+    const newly: AchievementDef[] = [];
+    for (const a of ACHIEVEMENTS) {
+      if (this.unlocked[a.id]) continue;
+      if (this.counters[a.metric] >= a.threshold) {
+        this.unlocked[a.id] = Date.now();
+        newly.push(a);
+      }
+    }
+    this.persist(newly.length > 0);
+    for (const a of newly) this.unlockEmitter.fire(a);
+  }
+
+  private persist(unlocksChanged: boolean) {
+    this.writer.schedule("achievementCounters", () => {
+      const { sessionLinesDeleted, ...lifetime } = this.counters;
+      return lifetime;
+    });
+    if (unlocksChanged) this.writer.schedule("achievements", () => this.unlocked);
+  }
+}
@@ -0,0 +1,35 @@
+// Counters the achievement engine keeps; "session" ones reset on every activation
+export type AchievementMetric =
+  | "totalChars"
+  | "totalNewlines"
+  | "totalDeletes"
+  | "totalSaves"
+  | "sessionLinesDeleted"
+  | "lateNightEdits"
+  | "level"
+  | "bestCombo";
+
+export interface AchievementDef {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  metric: AchievementMetric;
+  threshold: number;
+}
+
+export const ACHIEVEMENTS: AchievementDef[] = [
+  { id: "chars-1k", title: "Warming Up", description: "Type your first 1,000 characters.", icon: "⌨️", metric: "totalChars", threshold: 1_000 },
+  { id: "chars-10k", title: "Keyboard Warrior", description: "Type 10,000 characters.", icon: "⚔️", metric: "totalChars", threshold: 10_000 },
+  { id: "chars-100k", title: "Novelist", description: "Type 100,000 characters.", icon: "📚", metric: "totalChars", threshold: 100_000 },
+  { id: "newlines-1k", title: "Line Cook", description: "Press Enter 1,000 times.", icon: "↩️", metric: "totalNewlines", threshold: 1_000 },
+  { id: "deletes-5k", title: "Demolition Expert", description: "Delete 5,000 characters.", icon: "💣", metric: "totalDeletes", threshold: 5_000 },
+  { id: "session-lines-500", title: "Spring Cleaning", description: "Delete 500 lines in one session.", icon: "🧹", metric: "sessionLinesDeleted", threshold: 500 },
+  { id: "saves-100", title: "Save Scummer", description: "Save files 100 times.", icon: "💾", metric: "totalSaves", threshold: 100 },
+  { id: "midnight", title: "Night Owl", description: "Code past midnight.", icon: "🦉", metric: "lateNightEdits", threshold: 1 },
+  { id: "level-5", title: "Apprentice", description: "Reach level 5.", icon: "⭐", metric: "level", threshold: 5 },
+  { id: "level-10", title: "Journeyman", description: "Reach level 10.", icon: "🌟", metric: "level", threshold: 10 },
+  { id: "level-25", title: "Master", description: "Reach level 25.", icon: "👑", metric: "level", threshold: 25 },
+  { id: "combo-25", title: "On a Roll", description: "Reach a 25-key combo.", icon: "🔥", metric: "bestCombo", threshold: 25 },
+  { id: "combo-100", title: "Unstoppable", description: "Reach a 100-key combo.", icon: "🚀", metric: "bestCombo", threshold: 100 }
+];
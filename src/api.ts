@@ -0,0 +1,79 @@
+import * as vscode from "vscode";
+import { MilestoneView } from "./types";
+
+// Public API returned from `activate`; other extensions get it through
+// `vscode.extensions.getExtension<RidiculousCodingApi>("Merenut.ridiculous-coding")?.exports`
+
+export type ApiEffectKind = "blip" | "boom" | "fireworks";
+
+// Zero-based caret position
+export interface ApiPosition {
+  line: number;
+  character: number;
+}
+
+// Keystroke and boom events are plain data; no editor or document objects cross the API
+export interface KeystrokeEvent {
+  languageId: string;
+  // Characters inserted across all cursors
+  chars: number;
+  // Combo count after this keystroke; 0 when the edit doesn't count toward the combo
+  combo: number;
+  position: ApiPosition;
+}
+
+export interface BoomEvent {
+  languageId: string;
+  // Characters deleted across all cursors
+  chars: number;
+  // Combo count at the time of the delete
+  combo: number;
+  position: ApiPosition;
+}
+
+export interface XpEvent {
+  // XP actually gained after multipliers
+  amount: number;
+  reason: string;
+  xp: number;
+  level: number;
+}
+
+export interface LevelUpEvent {
+  level: number;
+  previousLevel: number;
+}
+
+export interface AchievementEvent {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+}
+
+// A finished task, test task or debug session and the XP it earned
+export type MilestoneEvent = MilestoneView;
+
+export interface ProgressSnapshot {
+  level: number;
+  xp: number;
+  // XP into the current level and needed to finish it
+  current: number;
+  max: number;
+  prestige: number;
+}
+
+export interface RidiculousCodingApi {
+  readonly version: 1;
+  readonly onKeystroke: vscode.Event<KeystrokeEvent>;
+  readonly onBoom: vscode.Event<BoomEvent>;
+  readonly onXp: vscode.Event<XpEvent>;
+  readonly onLevelUp: vscode.Event<LevelUpEvent>;
+  readonly onAchievement: vscode.Event<AchievementEvent>;
+  readonly onMilestone: vscode.Event<MilestoneEvent>;
+  // Award XP with a reason shown to event listeners; prestige multipliers apply
+  awardXp(amount: number, reason: string): void;
+  // Play an effect at a position in an editor (default: the active editor's caret)
+  triggerEffect(kind: ApiEffectKind, editor?: vscode.TextEditor, position?: vscode.Position): void;
+  getProgress(): ProgressSnapshot;
+}
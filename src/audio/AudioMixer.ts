@@ -0,0 +1,84 @@
+import * as vscode from "vscode";
+import { MixerView, SoundKind, SoundStyle, VolumeChannel } from "../types";
+
+const CHANNELS: VolumeChannel[] = ["master", "blip", "boom", "fireworks"];
+export const SOUND_STYLES: SoundStyle[] = ["sample", "chiptune", "explosion", "fanfare"];
+
+// Volume levels from settings plus a temporary mute persisted across reloads
+export class AudioMixer implements vscode.Disposable {
+  private readonly context: vscode.ExtensionContext;
+  private unmuteTimer?: ReturnType<typeof setTimeout>;
+  private readonly changeEmitter = new vscode.EventEmitter<MixerView>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.scheduleUnmute();
+  }
+
+  get volumes(): Record<VolumeChannel, number> {
+    const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+    const out = {} as Record<VolumeChannel, number>;
+    for (const ch of CHANNELS) {
+      out[ch] = Math.max(0, Math.min(1, cfg.get<number>(`volume.${ch}`, ch === "master" ? 0.5 : 1)));
+    }
+    return out;
+  }
+
+  // Sample or synth preset per sound kind
+  get styles(): Record<SoundKind, SoundStyle> {
+    const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+    const style = (kind: SoundKind) => {
+      const value = cfg.get<SoundStyle>(`soundStyle.${kind}`, "sample");
+      return SOUND_STYLES.includes(value) ? value : "sample";
+    };
+    return { blip: style("blip"), boom: style("boom"), fireworks: style("fireworks") };
+  }
+
+  get mutedUntil(): number {
+    const until = this.context.globalState.get<number>("mutedUntil", 0);
+    return until > Date.now() ? until : 0;
+  }
+
+  get muted(): boolean {
+    return this.mutedUntil > 0;
+  }
+
+  get view(): MixerView {
+    return { volumes: this.volumes, styles: this.styles, mutedUntil: this.mutedUntil };
+  }
+
+  muteFor(minutes: number) {
+    void this.context.globalState.update("mutedUntil", Date.now() + Math.max(0, minutes) * 60_000);
+    this.scheduleUnmute();
+    this.changeEmitter.fire(this.view);
+  }
+
+  unmute() {
+    void this.context.globalState.update("mutedUntil", 0);
+    this.scheduleUnmute();
+    this.changeEmitter.fire(this.view);
+  }
+
+  // Volume or sound style settings changed
+  refresh() {
+    this.changeEmitter.fire(this.view);
+  }
+
+  private scheduleUnmute() {
+    if (this.unmuteTimer) clearTimeout(this.unmuteTimer);
+    this.unmuteTimer = undefined;
+    const remaining = this.mutedUntil - Date.now();
+    if (remaining > 0) {
+      this.unmuteTimer = setTimeout(() => {
+        this.unmuteTimer = undefined;
+        this.changeEmitter.fire(this.view);
+      }, remaining + 50);
+    }
+  }
+
+  dispose() {
+    if (this.unmuteTimer) clearTimeout(this.unmuteTimer);
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,64 @@
+import * as vscode from "vscode";
+import { AudioMessage } from "../types";
+import { AudioSink } from "./AudioSinks";
+
+// Sounds played before any sink is ready wait here; stale ones are dropped on replay
+const MAX_QUEUED = 16;
+const QUEUE_TTL_MS = 2000;
+
+type Queued = { message: AudioMessage; at: number };
+
+// Sends each sound to the first ready sink in priority order. With none ready it queues the
+// sound, opens a fallback sink and replays the queue once a sink reports ready.
+export class AudioRouter implements vscode.Disposable {
+  private readonly sinks: AudioSink[];
+  private readonly subscriptions: vscode.Disposable[];
+  private queue: Queued[] = [];
+  private mixer?: AudioMessage;
+  // Whether a fallback sink may be opened automatically
+  fallbackEnabled = true;
+
+  constructor(sinks: AudioSink[]) {
+    this.sinks = sinks;
+    this.subscriptions = sinks.map(sink => sink.onDidChangeReady(ready => ready && this.onReady(sink)));
+  }
+
+  // The sink sounds currently go to
+  get active(): AudioSink | undefined {
+    return this.sinks.find(s => s.ready);
+  }
+
+  post(message: AudioMessage) {
+    // Mixer state goes to every ready sink and is replayed to sinks that become ready later
+    if (message.type === "mixer") {
+      this.mixer = message;
+      for (const sink of this.sinks) if (sink.ready) sink.post(message);
+      return;
+    }
+    const sink = this.active;
+    if (sink) {
+      sink.post(message);
+      return;
+    }
+    // A silent message only matters to a webview that is already showing something
+    if (!message.enabled) return;
+    this.queue.push({ message, at: Date.now() });
+    if (this.queue.length > MAX_QUEUED) this.queue.shift();
+    if (this.fallbackEnabled) this.sinks.find(s => s.open)?.open?.();
+  }
+
+  private onReady(sink: AudioSink) {
+    if (this.mixer) sink.post(this.mixer);
+    if (sink !== this.active) return;
+    const fresh = this.queue.filter(q => Date.now() - q.at <= QUEUE_TTL_MS);
+    this.queue = [];
+    for (const q of fresh) sink.post(q.message);
+    // Lower-priority fallbacks step aside for the preferred sink
+    for (const other of this.sinks.slice(this.sinks.indexOf(sink) + 1)) other.close?.();
+  }
+
+  dispose() {
+    for (const s of this.subscriptions) s.dispose();
+    this.queue = [];
+  }
+}
@@ -0,0 +1,200 @@
+import * as vscode from "vscode";
+import { AudioMessage } from "../types";
+import { ResolvedSkin } from "../skins/SkinService";
+import { PanelViewProvider } from "../view/PanelViewProvider";
+
+// Somewhere sounds can play: a live webview with the audio engine
+export interface AudioSink extends vscode.Disposable {
+  readonly name: string;
+  readonly ready: boolean;
+  readonly onDidChangeReady: vscode.Event<boolean>;
+  post(message: AudioMessage): void;
+  // Fallback sinks can be opened on demand and closed again once a preferred sink is ready
+  open?(): void;
+  close?(): void;
+}
+
+// The sidebar panel; its webview is retained while hidden so audio survives a collapsed sidebar
+export class SidebarAudioSink implements AudioSink {
+  readonly name = "sidebar";
+  private readonly readyEmitter = new vscode.EventEmitter<boolean>();
+  readonly onDidChangeReady = this.readyEmitter.event;
+  private readonly panel: PanelViewProvider;
+  private readonly disposables: vscode.Disposable[];
+
+  constructor(panel: PanelViewProvider) {
+    this.panel = panel;
+    this.disposables = [
+      this.readyEmitter,
+      panel.onDidBecomeReady(() => this.readyEmitter.fire(true)),
+      panel.onDidDispose(() => this.readyEmitter.fire(false))
+    ];
+  }
+
+  get ready(): boolean {
+    return this.panel.ready;
+  }
+
+  post(message: AudioMessage) {
+    this.panel.post(message);
+  }
+
+  dispose() {
+    for (const d of this.disposables) d.dispose();
+  }
+}
+
+// A small editor-area panel that only plays sounds, used while the sidebar panel was never opened
+export class EditorAudioSink implements AudioSink {
+  static readonly viewType = "ridiculousCoding.audio";
+  readonly name = "editor";
+  private readonly context: vscode.ExtensionContext;
+  private skin: ResolvedSkin;
+  private panel?: vscode.WebviewPanel;
+  private live = false;
+  // Closed or declined by the user: stay closed until explicitly reopened
+  private dismissed = false;
+  private closing = false;
+  private asking = false;
+  private readonly readyEmitter = new vscode.EventEmitter<boolean>();
+  readonly onDidChangeReady = this.readyEmitter.event;
+
+  constructor(context: vscode.ExtensionContext, skin: ResolvedSkin) {
+    this.context = context;
+    this.skin = skin;
+  }
+
+  get ready(): boolean {
+    return this.live;
+  }
+
+  setSkin(skin: ResolvedSkin) {
+    this.skin = skin;
+    if (!this.panel) return;
+    this.panel.webview.options = this.getWebviewOptions();
+    this.postSounds();
+  }
+
+  // Automatic opens ask first rather than splitting the editor unannounced and respect a
+  // dismissal; `force` is for the explicit command
+  open(force = false) {
+    if (force) this.dismissed = false;
+    if (this.dismissed) return;
+    if (this.panel) {
+      if (force) this.panel.reveal(undefined, true);
+      return;
+    }
+    if (force) this.createPanel();
+    else void this.ask();
+  }
+
+  close() {
+    if (!this.panel) return;
+    this.closing = true;
+    this.panel.dispose();
+  }
+
+  post(message: AudioMessage) {
+    void this.panel?.webview.postMessage(message);
+  }
+
+  dispose() {
+    this.close();
+    this.readyEmitter.dispose();
+  }
+
+  private async ask() {
+    if (this.asking) return;
+    this.asking = true;
+    const choice = await vscode.window.showInformationMessage(
+      "Ridiculous Coding needs its panel open to play sounds.",
+      "Open Sidebar Panel",
+      "Play in Editor Tab",
+      "Not Now"
+    );
+    this.asking = false;
+    if (choice === "Open Sidebar Panel") {
+      void vscode.commands.executeCommand(`${PanelViewProvider.viewType}.focus`);
+    } else if (choice === "Play in Editor Tab") {
+      this.createPanel();
+    } else {
+      this.dismissed = true;
+    }
+  }
+
+  private createPanel() {
+    if (this.panel) return;
+    const panel = vscode.window.createWebviewPanel(
+      EditorAudioSink.viewType,
+      "Ridiculous Coding Audio",
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { ...this.getWebviewOptions(), retainContextWhenHidden: true }
+    );
+    panel.iconPath = vscode.Uri.joinPath(this.context.extensionUri, "media", "icons", "icon.svg");
+    panel.webview.html = this.getHtml(panel.webview);
+    panel.webview.onDidReceiveMessage((msg: { type: string }) => {
+      if (msg.type !== "ready") return;
+      this.postSounds();
+      this.live = true;
+      this.readyEmitter.fire(true);
+    });
+    panel.onDidDispose(() => {
+      this.panel = undefined;
+      this.live = false;
+      if (!this.closing) this.dismissed = true;
+      this.closing = false;
+      this.readyEmitter.fire(false);
+    });
+    this.panel = panel;
+  }
+
+  private postSounds() {
+    if (!this.panel) return;
+    const webview = this.panel.webview;
+    void webview.postMessage({
+      type: "sounds",
+      soundUris: {
+        blip: webview.asWebviewUri(this.skin.sounds.blip).toString(),
+        boom: webview.asWebviewUri(this.skin.sounds.boom).toString(),
+        fireworks: webview.asWebviewUri(this.skin.sounds.fireworks).toString()
+      }
+    });
+  }
+
+  private getWebviewOptions(): vscode.WebviewOptions {
+    return {
+      enableScripts: true,
+      localResourceRoots: [this.context.extensionUri, this.skin.root]
+    };
+  }
+
+  private getHtml(webview: vscode.Webview): string {
+    const nonce = Math.random().toString(36).slice(2);
+    const asset = (file: string) =>
+      webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, "webview", file));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; media-src ${webview.cspSource}; connect-src ${webview.cspSource}; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<link href="${asset("panel.css")}" rel="stylesheet">
+<title>Ridiculous Coding Audio</title>
+</head>
+<body>
+  <div class="container">
+    <section class="card">
+      <h2 class="card-title">Audio</h2>
+      <div class="notice" id="soundNotice" role="button" tabindex="0" title="Click to enable sound">🔊 Click anywhere here to enable sound</div>
+      <p class="muted">Plays Ridiculous Coding sounds while the sidebar panel is closed. It closes itself once the sidebar panel is open.</p>
+    </section>
+  </div>
+
+  <script nonce="${nonce}" src="${asset("synth.js")}"></script>
+  <script nonce="${nonce}" src="${asset("audio.js")}"></script>
+  <script nonce="${nonce}" src="${asset("audio-panel.js")}"></script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,91 @@
+import * as vscode from "vscode";
+
+export type ScaleName = "major" | "minorPentatonic" | "blues";
+
+// Semitone offsets from the root, plus the chord tones used for newlines and jingles
+const SCALES: Record<ScaleName, { steps: number[]; chord: number[] }> = {
+  major: { steps: [0, 2, 4, 5, 7, 9, 11], chord: [0, 4, 7] },
+  minorPentatonic: { steps: [0, 3, 5, 7, 10], chord: [0, 3, 7] },
+  blues: { steps: [0, 3, 5, 6, 7, 10], chord: [0, 3, 7, 10] }
+};
+
+// Keystrokes climb two octaves, then walk back down
+const OCTAVES = 2;
+
+// MIDI notes to play and the gap between them (0 = together as a chord)
+export type NotePhrase = { notes: number[]; spread: number };
+
+export class MusicalTyping {
+  private step = 0;
+  private direction = 1;
+  private lastNote?: number;
+
+  private getConfig() {
+    const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+    const enabled = cfg.get<boolean>("music.enabled", false);
+    const scaleName = cfg.get<ScaleName>("music.scale", "major");
+    const scale = SCALES[scaleName] ?? SCALES.major;
+    const noteSource = cfg.get<"sequence" | "character">("music.noteSource", "sequence");
+    const root = Math.max(24, Math.min(96, Math.round(cfg.get<number>("music.rootNote", 60))));
+    const newline = cfg.get<"tonic" | "chord">("music.newline", "chord");
+    return { enabled, scale, noteSource, root, newline };
+  }
+
+  get enabled(): boolean {
+    return this.getConfig().enabled;
+  }
+
+  // Note for a typed character: the next scale step, or one picked by the character itself
+  keystroke(char: string): NotePhrase {
+    const { scale, noteSource, root } = this.getConfig();
+    const span = scale.steps.length * OCTAVES;
+    let index: number;
+    if (noteSource === "character" && char) {
+      index = (char.codePointAt(0) ?? 0) % span;
+    } else {
+      index = this.step;
+      if (this.step + this.direction < 0 || this.step + this.direction > span) this.direction = -this.direction;
+      this.step += this.direction;
+    }
+    return this.remember({ notes: [this.noteAt(root, scale.steps, index)], spread: 0 });
+  }
+
+  // Newlines resolve to the tonic, or play the scale's chord, and restart the run
+  newline(): NotePhrase {
+    const { scale, root, newline } = this.getConfig();
+    this.step = 0;
+    this.direction = 1;
+    return this.remember({ notes: newline === "chord" ? scale.chord.map(c => root + c) : [root], spread: 0 });
+  }
+
+  // Deletes fall a minor third from the last note and step the run back
+  delete(): NotePhrase {
+    const { scale, root } = this.getConfig();
+    const from = this.lastNote ?? this.noteAt(root, scale.steps, this.step);
+    this.step = Math.max(0, this.step - 1);
+    return this.remember({ notes: [from, from - 3], spread: 0.08 });
+  }
+
+  // Arpeggio up the chord to the octave and back to the fifth above it
+  levelUp(): NotePhrase {
+    const { scale, root } = this.getConfig();
+    const up = scale.chord.map(c => root + 12 + c);
+    return { notes: [...up, root + 24, root + 19, root + 24], spread: 0.09 };
+  }
+
+  // Falling "uh-oh" for failures, played whether or not musical mode is on
+  fail(): NotePhrase {
+    const { root } = this.getConfig();
+    return { notes: [root + 7, root + 1], spread: 0.18 };
+  }
+
+  private noteAt(root: number, steps: number[], index: number): number {
+    const octave = Math.floor(index / steps.length);
+    return root + octave * 12 + steps[index % steps.length];
+  }
+
+  private remember(phrase: NotePhrase): NotePhrase {
+    this.lastNote = phrase.notes[phrase.notes.length - 1];
+    return phrase;
+  }
+}
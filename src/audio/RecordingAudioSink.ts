@@ -0,0 +1,54 @@
+import type * as vscode from "vscode";
+import { AudioMessage } from "../types";
+import { AudioSink } from "./AudioSinks";
+
+// Stores every message it is sent instead of playing it; readiness is toggled by hand.
+// Needs no vscode runtime, so routing can be exercised outside the extension host.
+export class RecordingAudioSink implements AudioSink {
+  readonly name: string;
+  readonly messages: AudioMessage[] = [];
+  private live: boolean;
+  private listeners: Array<(ready: boolean) => void> = [];
+
+  constructor(name = "recording", ready = true) {
+    this.name = name;
+    this.live = ready;
+  }
+
+  get ready(): boolean {
+    return this.live;
+  }
+
+  readonly onDidChangeReady: vscode.Event<boolean> = listener => {
+    this.listeners.push(listener);
+    return { dispose: () => (this.listeners = this.listeners.filter(l => l !== listener)) };
+  };
+
+  setReady(ready: boolean) {
+    this.live = ready;
+    for (const listener of [...this.listeners]) listener(ready);
+  }
+
+  post(message: AudioMessage) {
+    this.messages.push(message);
+  }
+
+  dispose() {
+    this.listeners = [];
+  }
+}
+
+// A recording sink the router may open as its fallback; counts how often it was opened and closed
+export class RecordingFallbackSink extends RecordingAudioSink {
+  opened = 0;
+  closed = 0;
+
+  open() {
+    this.opened++;
+  }
+
+  close() {
+    this.closed++;
+    this.setReady(false);
+  }
+}
@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+
+export type ComboState = {
+  count: number;
+  multiplier: number;
+  // Set when this change crossed a milestone (x10, x25, x50, then every 50)
+  milestone?: number;
+  broken?: boolean;
+};
+
+const MILESTONES = [10, 25, 50];
+const MILESTONE_EVERY = 50;
+const TICK_MS = 250;
+
+export class ComboService {
+  private _count = 0;
+  private best = 0;
+  // Highest milestone celebrated in the current streak, so decay and recovery don't repeat it
+  private reached = 0;
+  private lastHitAt = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly changeEmitter = new vscode.EventEmitter<ComboState>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  get count(): number {
+    return this._count;
+  }
+
+  get bestCount(): number {
+    return this.best;
+  }
+
+  get multiplier(): number {
+    const cfg = this.getConfig();
+    if (!cfg.enabled) return 1;
+    const bonus = Math.floor(this._count / 10) * cfg.multiplierStep;
+    return Math.min(cfg.maxMultiplier, 1 + bonus);
+  }
+
+  private getConfig() {
+    const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+    const enabled = cfg.get<boolean>("combo.enabled", true);
+    const decayMs = Math.max(100, cfg.get<number>("combo.decayMs", 1000));
+    const breakMs = Math.max(decayMs, cfg.get<number>("combo.breakMs", 3000));
+    const multiplierStep = Math.max(0, cfg.get<number>("combo.multiplierStep", 0.1));
+    const maxMultiplier = Math.max(1, cfg.get<number>("combo.maxMultiplier", 3));
+    return { enabled, decayMs, breakMs, multiplierStep, maxMultiplier };
+  }
+
+  // Register one keystroke worth of streak; returns the resulting state
+  hit(): ComboState {
+    if (!this.getConfig().enabled) return this.snapshot();
+    this._count += 1;
+    this.best = Math.max(this.best, this._count);
+    this.lastHitAt = Date.now();
+    const state = this.snapshot();
+    const milestone = this.crossedMilestone(this._count);
+    if (milestone) state.milestone = milestone;
+    this.changeEmitter.fire(state);
+    this.ensureTicking();
+    return state;
+  }
+
+  // Drop the streak immediately (e.g. combo disabled or XP reset)
+  break(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.reached = 0;
+    if (this._count === 0) return;
+    this._count = 0;
+    this.changeEmitter.fire({ ...this.snapshot(), broken: true });
+  }
+
+  dispose() {
+    if (this.timer) clearTimeout(this.timer);
+    this.changeEmitter.dispose();
+  }
+
+  private snapshot(): ComboState {
+    return { count: this._count, multiplier: this.multiplier };
+  }
+
+  private crossedMilestone(count: number): number | undefined {
+    const last = MILESTONES[MILESTONES.length - 1];
+    const milestone = count >= last
+      ? Math.floor(count / MILESTONE_EVERY) * MILESTONE_EVERY
+      : [...MILESTONES].reverse().find(m => count >= m) ?? 0;
+    if (milestone <= this.reached) return undefined;
+    this.reached = milestone;
+    return milestone;
+  }
+
+  private ensureTicking() {
+    if (this.timer) return;
+    const tick = () => {
+      this.timer = undefined;
+      if (this._count === 0) return;
+      const { decayMs, breakMs } = this.getConfig();
+      const idle = Date.now() - this.lastHitAt;
+      if (idle >= breakMs) {
+        this.break();
+        return;
+      }
+      if (idle >= decayMs) {
+        // Lose a little streak for every tick spent idle past the decay threshold
+        this._count = Math.max(0, this._count - Math.max(1, Math.ceil(this._count * 0.1)));
+        if (this._count === 0) {
+          this.reached = 0;
+          this.changeEmitter.fire({ ...this.snapshot(), broken: true });
+          return;
+        }
+        this.changeEmitter.fire(this.snapshot());
+      }
+      this.timer = setTimeout(tick, TICK_MS);
+    };
+    this.timer = setTimeout(tick, TICK_MS);
+  }
+}
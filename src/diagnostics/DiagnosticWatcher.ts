@@ -0,0 +1,100 @@
+import * as vscode from "vscode";
+
+export type DiagnosticChange = {
+  editor: vscode.TextEditor;
+  // Diagnostics that went away, with their last known ranges
+  fixed: vscode.Diagnostic[];
+  // Fixed diagnostics that were not already fixed at the same line recently; only these earn XP
+  rewarded: vscode.Diagnostic[];
+  added: vscode.Diagnostic[];
+};
+
+type Snapshot = { uri: string; version: number; diagnostics: vscode.Diagnostic[] };
+
+// Re-fixing the same error within this window pays nothing, so errors can't be farmed
+const REFIX_COOLDOWN_MS = 10 * 60_000;
+
+// Ranges move as the user edits, so diagnostics are matched by what they say
+function identity(d: vscode.Diagnostic): string {
+  const code = typeof d.code === "object" ? d.code.value : d.code;
+  return `${d.severity}|${d.source ?? ""}|${code ?? ""}|${d.message}`;
+}
+
+// Multiset difference by identity: entries of `a` without a counterpart in `b`
+function missingFrom(a: vscode.Diagnostic[], b: vscode.Diagnostic[]): vscode.Diagnostic[] {
+  const left = new Map<string, number>();
+  for (const d of b) left.set(identity(d), (left.get(identity(d)) ?? 0) + 1);
+  return a.filter(d => {
+    const n = left.get(identity(d)) ?? 0;
+    if (n > 0) left.set(identity(d), n - 1);
+    return n === 0;
+  });
+}
+
+// Compares the active document's errors (and optionally warnings) between diagnostic updates.
+// Only changes that follow an edit count, so a language server restarting or catching up
+// after the document opens does not read as fixes.
+export class DiagnosticWatcher implements vscode.Disposable {
+  private snapshot?: Snapshot;
+  // When each diagnostic was last fixed, by document, message and line
+  private readonly fixedAt = new Map<string, number>();
+  private readonly changeEmitter = new vscode.EventEmitter<DiagnosticChange>();
+  readonly onDidChange = this.changeEmitter.event;
+  private readonly disposables: vscode.Disposable[];
+
+  constructor() {
+    this.disposables = [
+      this.changeEmitter,
+      vscode.languages.onDidChangeDiagnostics(e => this.onDiagnostics(e)),
+      vscode.window.onDidChangeActiveTextEditor(editor => this.take(editor))
+    ];
+    this.take(vscode.window.activeTextEditor);
+  }
+
+  dispose() {
+    for (const d of this.disposables) d.dispose();
+  }
+
+  private get minSeverity(): vscode.DiagnosticSeverity {
+    const setting = vscode.workspace.getConfiguration("ridiculousCoding").get<"error" | "warning">("diagnostics.minSeverity", "error");
+    return setting === "warning" ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error;
+  }
+
+  private current(document: vscode.TextDocument): vscode.Diagnostic[] {
+    const min = this.minSeverity;
+    return vscode.languages.getDiagnostics(document.uri).filter(d => d.severity <= min);
+  }
+
+  private take(editor: vscode.TextEditor | undefined) {
+    this.snapshot = editor
+      ? { uri: editor.document.uri.toString(), version: editor.document.version, diagnostics: this.current(editor.document) }
+      : undefined;
+  }
+
+  private onDiagnostics(e: vscode.DiagnosticChangeEvent) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) return;
+    const uri = editor.document.uri.toString();
+    if (!e.uris.some(u => u.toString() === uri)) return;
+    const previous = this.snapshot?.uri === uri ? this.snapshot : undefined;
+    this.take(editor);
+    if (!previous || previous.version === editor.document.version) return;
+    const now = this.snapshot!.diagnostics;
+    const fixed = missingFrom(previous.diagnostics, now);
+    const added = missingFrom(now, previous.diagnostics);
+    if (fixed.length || added.length) this.changeEmitter.fire({ editor, fixed, rewarded: this.reward(uri, fixed), added });
+  }
+
+  private reward(uri: string, fixed: vscode.Diagnostic[]): vscode.Diagnostic[] {
+    const now = Date.now();
+    for (const [key, at] of this.fixedAt) {
+      if (now - at >= REFIX_COOLDOWN_MS) this.fixedAt.delete(key);
+    }
+    return fixed.filter(d => {
+      const key = `${uri}|${d.range.start.line}|${d.message}`;
+      const fresh = !this.fixedAt.has(key);
+      this.fixedAt.set(key, now);
+      return fresh;
+    });
+  }
+}
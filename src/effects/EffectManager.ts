@@ -1,7 +1,15 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
-
-type EffectKind = "blip" | "boom" | "newline";
+import * as path from "path";
+import { EffectKind, ShakeIntensity, ShakeProfileName } from "../types";
+import { ResolvedSkin } from "../skins/SkinService";
+import { FrameRect, SpriteAnimation, pickAnimation } from "../sprites/SpriteAnimation";
+import { readSheetAnimations } from "../sprites/SpriteSheets";
+import { FrameCache, FrameTimeStats, summarize } from "./FrameCache";
+import { slicePng } from "./PngSlicer";
+import { ShakePool } from "./ShakePool";
+import { MAX_SHAKE_INTENSITY, shakeIntensity, shakeOffset } from "./ShakeProfiles";
+import { performance } from "perf_hooks";
 
 // Per-editor state for rate limiting and decoration tracking
 interface EditorState {
@@ -14,40 +22,97 @@ interface EditorState {
   };
   buffers: Record<EffectKind, Array<{ opt: vscode.DecorationOptions; createdAt: number }>>;
   animTimers: Partial<Record<EffectKind, ReturnType<typeof setTimeout>>>;
+  // "uh-oh" labels over new problems, kept apart from the effect trails
+  uhOh: Array<{ opt: vscode.DecorationOptions; createdAt: number }>;
   shakeTimer?: ReturnType<typeof setTimeout>;
-  activeShakeDecoKey?: string;
+  activeShakeIndex?: number;
+  shakeStartAt?: number;
   shakeEndAt?: number;
+  shakeProfile?: ShakeProfileName;
+  shakeAmplitudePx?: number;
+  shakeTick?: number;
+  // Whole-line ranges covering the visible lines; dropped when visibleRanges change
+  shakeLines?: vscode.Range[];
+}
+
+// A sprite animation ready to play: one region, duration and prebuilt icon per frame
+interface SpriteData {
+  frames: FrameRect[];
+  frameMs: number[];
+  loop: boolean;
+  sheetW: number;
+  sheetH: number;
+  pngBase64: string;
+  // Each frame cut out of the sheet as its own PNG; undefined when the sheet cannot be sliced
+  frameImages?: string[];
+}
+
+// Width and height from a PNG's IHDR chunk
+function pngSize(bytes: Uint8Array): { sheetW: number; sheetH: number } {
+  const view = Buffer.from(bytes);
+  if (view.length < 24) return { sheetW: 0, sheetH: 0 };
+  return { sheetW: view.readUInt32BE(16), sheetH: view.readUInt32BE(20) };
+}
+
+// Frame icon at the given pixel size, embedding only the frame's own pixels when sliced
+function frameSvgUri(data: SpriteData, idx: number, width: number, height: number): vscode.Uri {
+  const f = data.frames[idx];
+  const slice = data.frameImages?.[idx];
+  const image = slice
+    ? `<image href="data:image/png;base64,${slice}" x="0" y="0" width="${f.w}" height="${f.h}" preserveAspectRatio="none"/>`
+    : `<image href="data:image/png;base64,${data.pngBase64}" x="-${f.x}" y="-${f.y}" width="${data.sheetW}" height="${data.sheetH}" preserveAspectRatio="none"/>`;
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${f.w} ${f.h}" width="${width}" height="${height}">\n  ${image}\n</svg>`;
+  return vscode.Uri.parse('data:image/svg+xml;utf8,' + encodeURIComponent(svg));
 }
 
+// How long an "uh-oh" label stays over a new problem
+const UH_OH_MS = 1200;
+
+// Minimum shake duration per effect kind
+const SHAKE_MS: Record<EffectKind, number> = { blip: 120, boom: 180, newline: 140 };
+
+const FONT_FORMATS: Record<string, { mime: string; format: string }> = {
+  '.ttf': { mime: 'font/ttf', format: 'truetype' },
+  '.otf': { mime: 'font/otf', format: 'opentype' },
+  '.woff': { mime: 'font/woff', format: 'woff' },
+  '.woff2': { mime: 'font/woff2', format: 'woff2' }
+};
+
 export class EffectManager {
   private context: vscode.ExtensionContext;
+  private skin: ResolvedSkin;
   private blipDecoration: vscode.TextEditorDecorationType;
   private boomDecoration: vscode.TextEditorDecorationType;
   private newlineDecoration: vscode.TextEditorDecorationType;
   private animDecoration: vscode.TextEditorDecorationType;
+  private comboDecoration: vscode.TextEditorDecorationType;
+  private uhOhDecoration: vscode.TextEditorDecorationType;
 
-  // Jitter variants to approximate "shake"
-  private jitterLeft: vscode.TextEditorDecorationType;
-  private jitterRight: vscode.TextEditorDecorationType;
-
-  // Cache of whole-line shake decorations by offset key ("x_y")
-  private shakeDecoCache = new Map<string, vscode.TextEditorDecorationType>();
+  // Small fixed set of whole-line offset decorations used for shake
+  private shakePool = new ShakePool();
+  // Recent keystroke times and the current combo, for typing-rate and combo shake intensity
+  private keystrokes: number[] = [];
+  private comboCount = 0;
 
   // Per-editor state tracking
   private editorStates = new WeakMap<vscode.TextEditor, EditorState>();
   private fontBase64?: string;
   private readonly fontFamilyName = 'GravityBold8';
-  private spriteData?: Record<EffectKind, {
-    frames: Array<{ x: number; y: number; w: number; h: number }>;
-    sheetW: number; sheetH: number; fps: number; pngBase64: string; frameUris: vscode.Uri[];
-  }>;
+  private spriteData?: Record<EffectKind, SpriteData>;
+  private frameCache = new FrameCache();
   private runningSpriteAnim = new WeakMap<vscode.TextEditor, Partial<Record<EffectKind, NodeJS.Timeout>>>();
+  private readonly spriteErrorEmitter = new vscode.EventEmitter<string>();
+  // A skin's sprite sheet image could not be read; fires once per effect kind and skin
+  readonly onDidFailToLoadSprite = this.spriteErrorEmitter.event;
   
   // Maximum concurrent decorations per effect type per editor
   private readonly MAX_DECORATIONS_PER_TYPE = 5; // fallback; config can override
+  // Maximum number of cursors that get their own effect with multi-cursor editing
+  private readonly MAX_CURSOR_EFFECTS = 8;
 
-  constructor(context: vscode.ExtensionContext) {
+  constructor(context: vscode.ExtensionContext, skin: ResolvedSkin) {
     this.context = context;
+    this.skin = skin;
 
     const media = vscode.Uri.joinPath(this.context.extensionUri, "media");
     const blipIcon = vscode.Uri.joinPath(media, "blip.svg");
@@ -85,11 +150,18 @@ export class EffectManager {
       }
     });
 
-    this.jitterLeft = vscode.window.createTextEditorDecorationType({
-      after: { margin: "0 0 0 -2px" }
+    this.comboDecoration = vscode.window.createTextEditorDecorationType({
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+      after: {
+        margin: '0',
+      }
     });
-    this.jitterRight = vscode.window.createTextEditorDecorationType({
-      after: { margin: "0 0 0 2px" }
+
+    this.uhOhDecoration = vscode.window.createTextEditorDecorationType({
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+      after: {
+        margin: '0',
+      }
     });
 
     // Set up cleanup on editor close
@@ -97,6 +169,10 @@ export class EffectManager {
       vscode.window.onDidChangeVisibleTextEditors(editors => {
         // Clean up state for editors that are no longer visible
         this.cleanupInvisibleEditors(editors);
+      }),
+      vscode.window.onDidChangeTextEditorVisibleRanges(e => {
+        const state = this.editorStates.get(e.textEditor);
+        if (state) state.shakeLines = undefined;
       })
     );
   }
@@ -105,10 +181,20 @@ export class EffectManager {
     this.blipDecoration.dispose();
     this.boomDecoration.dispose();
     this.newlineDecoration.dispose();
-    this.jitterLeft.dispose();
-    this.jitterRight.dispose();
     this.animDecoration.dispose();
-    // Do not dispose shakeDecoCache here; they are reused and VS Code cleans up on extension deactivate
+    this.comboDecoration.dispose();
+    this.uhOhDecoration.dispose();
+    this.shakePool.dispose();
+    this.spriteErrorEmitter.dispose();
+  }
+
+  // Swap sprites, label font and colors; cached sheet and font data are rebuilt lazily
+  setSkin(skin: ResolvedSkin) {
+    this.skin = skin;
+    this.spriteData = undefined;
+    this.fontBase64 = undefined;
+    this.frameCache.clear();
+    for (const editor of vscode.window.visibleTextEditors) this.clearSpriteAnim(editor);
   }
 
   private getEditorState(editor: vscode.TextEditor): EditorState {
@@ -123,7 +209,8 @@ export class EffectManager {
           newline: 0
         },
         buffers: { blip: [], boom: [], newline: [] },
-        animTimers: {}
+        animTimers: {},
+        uhOh: []
       };
       this.editorStates.set(editor, state);
     }
@@ -138,9 +225,11 @@ export class EffectManager {
     const r = Math.min(1, this.godotRandfRange(0, 2));
     const g = Math.min(1, this.godotRandfRange(0, 2));
     const b = Math.min(1, this.godotRandfRange(0, 2));
-    const R = Math.round(r * 255);
-    const G = Math.round(g * 255);
-    const B = Math.round(b * 255);
+    // Eight steps per channel keep the set of label colors small enough to cache
+    const step = (v: number) => Math.round(Math.round(v * 8) / 8 * 255);
+    const R = step(r);
+    const G = step(g);
+    const B = step(b);
     return `rgb(${R}, ${G}, ${B})`;
   }
 
@@ -221,8 +310,7 @@ export class EffectManager {
   private getFontBase64(): string | undefined {
     if (this.fontBase64) return this.fontBase64;
     try {
-      const fontUri = vscode.Uri.joinPath(this.context.extensionUri, "media", "font", "GravityBold8.ttf");
-      const buf = fs.readFileSync(fontUri.fsPath);
+      const buf = fs.readFileSync(this.skin.font.fsPath);
       this.fontBase64 = Buffer.from(buf).toString("base64");
       return this.fontBase64;
     } catch {
@@ -255,12 +343,28 @@ export class EffectManager {
     return new vscode.Range(pos, pos);
   }
 
-  private rangeAboveCaret(editor: vscode.TextEditor): vscode.Range {
-  const pos = editor.selection.active;
-  const lineAbove = Math.max(0, pos.line - 1);
-  const abovePos = new vscode.Position(lineAbove, pos.character);
-  return new vscode.Range(abovePos, abovePos);
-}
+  // One empty range per cursor, primary first, capped to keep multi-cursor edits cheap
+  private caretRanges(editor: vscode.TextEditor): vscode.Range[] {
+    return editor.selections
+      .slice(0, this.MAX_CURSOR_EFFECTS)
+      .map(sel => new vscode.Range(sel.active, sel.active));
+  }
+
+  // Effects land on the given position or ranges, or on every cursor
+  private targetRanges(editor: vscode.TextEditor, at?: vscode.Position | readonly vscode.Range[]): vscode.Range[] {
+    if (!at) return this.caretRanges(editor);
+    if (at instanceof vscode.Position) return [new vscode.Range(at, at)];
+    return at.slice(0, this.MAX_CURSOR_EFFECTS).map(r => this.anchor(editor, r));
+  }
+
+  // Empty range in the middle of a single-line range (its start otherwise), kept inside the document
+  private anchor(editor: vscode.TextEditor, range: vscode.Range): vscode.Range {
+    const r = editor.document.validateRange(range);
+    const pos = r.isSingleLine
+      ? r.start.translate(0, Math.floor((r.end.character - r.start.character) / 2))
+      : r.start;
+    return new vscode.Range(pos, pos);
+  }
 
   // Build a lightweight SVG as a data URI for the provided text
   private buildTextSvgDataUri(text: string, options?: { color?: string; fontSize?: number; fontFamily?: string; paddingX?: number; paddingY?: number }): vscode.Uri {
@@ -275,8 +379,9 @@ export class EffectManager {
     // Add minimal padding and baseline to avoid clipping.
     const baseline = fontSize + paddingY;
     const fontData = this.getFontBase64();
+    const fontFormat = FONT_FORMATS[path.extname(this.skin.font.fsPath).toLowerCase()] ?? FONT_FORMATS['.ttf'];
     const fontFace = fontData
-      ? `@font-face { font-family: '${this.fontFamilyName}'; src: url(data:font/ttf;base64,${fontData}) format('truetype'); font-weight: normal; font-style: normal; }`
+      ? `@font-face { font-family: '${this.fontFamilyName}'; src: url(data:${fontFormat.mime};base64,${fontData}) format('${fontFormat.format}'); font-weight: normal; font-style: normal; }`
       : '';
     const svg = `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" height="${baseline + paddingY}">\n  <defs>\n    <style><![CDATA[\n      ${fontFace}\n      .t { font-family: ${fontFamily}; font-size: ${fontSize}px; fill: ${color}; }\n    ]]></style>\n  </defs>\n  <text class="t" x="${paddingX}" y="${baseline}">${esc(text)}</text>\n</svg>`;
     const data = 'data:image/svg+xml;utf8,' + encodeURIComponent(svg);
@@ -285,52 +390,93 @@ export class EffectManager {
 
   private async ensureSpriteData(kind: EffectKind): Promise<void> {
     if (this.spriteData && this.spriteData[kind]) return;
-    const dir = vscode.Uri.joinPath(this.context.extensionUri, 'media', 'animations');
-    const tscnUri = vscode.Uri.joinPath(dir, `${kind}.tscn`);
-    const pngUri = vscode.Uri.joinPath(dir, `${kind}.png`);
-    const tscnText = fs.readFileSync(tscnUri.fsPath, 'utf8');
-    const pngB64 = Buffer.from(fs.readFileSync(pngUri.fsPath)).toString('base64');
-    
-    // Parse AtlasTextures regions by id
-    const atlasMap = new Map<string, { x: number; y: number; w: number; h: number }>();
-    const atlasBlocks = [...tscnText.matchAll(/\[sub_resource\s+type="AtlasTexture"\s+id="(.*?)"\][\s\S]*?region\s*=\s*Rect2\(([^\)]*)\)/g)];
-    for (const m of atlasBlocks) {
-      const id = m[1];
-      const nums = m[2].split(',').map(s => parseFloat(s.trim()));
-      if (nums.length >= 4) atlasMap.set(id, { x: nums[0], y: nums[1], w: nums[2], h: nums[3] });
-    }
-    //
-    // Parse SpriteFrames order and speed
-    const framesOrder: string[] = [];
-    const animBlock = tscnText.match(/\[sub_resource\s+type="SpriteFrames"[\s\S]*?animations\s*=\s*\[(\{[\s\S]*?\})\][\s\S]*?\n/);
-    if (animBlock) {
-      const block = animBlock[1];
-      const subResRefs = [...block.matchAll(/SubResource\("(.*?)"\)/g)];
-      for (const sr of subResRefs) framesOrder.push(sr[1]);
+    const sprite = this.skin.sprites[kind];
+    this.spriteData = this.spriteData ?? ({} as Record<EffectKind, SpriteData>);
+    let pngBytes: Buffer;
+    try {
+      pngBytes = fs.readFileSync(sprite.png.fsPath);
+    } catch (err) {
+      // Play no sprite animation for this kind until the skin changes, rather than failing every keystroke
+      this.spriteData[kind] = { frames: [], frameMs: [], loop: false, sheetW: 0, sheetH: 0, pngBase64: '' };
+      this.spriteErrorEmitter.fire(`${kind} sprite ${sprite.png.fsPath}: ${err instanceof Error ? err.message : String(err)}`);
+      return;
     }
-    const speedMatch = tscnText.match(/\"speed\"\s*:\s*([0-9.]+)/);
-    const fps = speedMatch ? Math.max(1, parseFloat(speedMatch[1])) : 24;
+    const pngB64 = Buffer.from(pngBytes).toString('base64');
+    const { sheetW, sheetH } = pngSize(pngBytes);
 
-    const frames: Array<{ x: number; y: number; w: number; h: number }> = [];
-    for (const id of framesOrder) {
-      const rect = atlasMap.get(id);
-      if (rect) frames.push(rect);
+    let anim: SpriteAnimation | undefined;
+    try {
+      const animations = readSheetAnimations(sprite.sheet.fsPath, fs.readFileSync(sprite.sheet.fsPath, 'utf8'));
+      // A sheet shared by several effects can tag an animation per effect kind
+      anim = pickAnimation(animations, sprite.animation, kind);
+    } catch {
+      // Unreadable sheets play no sprite animation; skin packs report parse errors when selected
     }
-    // Fallback: if order failed, use atlas order
-    if (!frames.length && atlasMap.size) frames.push(...[...atlasMap.values()]);
 
-    // Compute sheet dimensions from max extents
-    let sheetW = 0, sheetH = 0;
-    for (const f of frames) { sheetW = Math.max(sheetW, f.x + f.w); sheetH = Math.max(sheetH, f.y + f.h); }
+    // All frames are cut from the skin's png; frames without a region use the whole sheet
+    const frames = (anim?.frames ?? []).map(f => f.region ?? { x: 0, y: 0, w: sheetW, h: sheetH });
+    const fps = anim?.speed ?? 24;
+    const frameMs = (anim?.frames ?? []).map(f => Math.max(10, Math.round((1000 / fps) * f.duration)));
 
-    // Prebuild frame SVG URIs
-    const frameUris: vscode.Uri[] = frames.map(f => {
-      const svg = `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${f.w} ${f.h}" width="${f.w}" height="${f.h}">\n  <image href="data:image/png;base64,${pngB64}" x="-${f.x}" y="-${f.y}" width="${sheetW}" height="${sheetH}" preserveAspectRatio="none"/>\n</svg>`;
-      return vscode.Uri.parse('data:image/svg+xml;utf8,' + encodeURIComponent(svg));
-    });
+    // Slice the sheet once; frame icons are then built lazily per size and cached
+    const frameImages = slicePng(pngBytes, frames)?.map(b => b.toString('base64'));
+
+    this.spriteData[kind] = { frames, frameMs, loop: anim?.loop ?? false, sheetW, sheetH, pngBase64: pngB64, frameImages };
+  }
 
-  this.spriteData = this.spriteData ?? ({} as Record<EffectKind, any>);
-  (this.spriteData as Record<EffectKind, any>)[kind] = { frames, sheetW, sheetH, fps, pngBase64: pngB64, frameUris };
+  private frameIcon(kind: EffectKind, idx: number, width: number, height: number): vscode.Uri {
+    return this.frameCache.frame(kind, idx, width, height, () => frameSvgUri(this.spriteData![kind], idx, width, height));
+  }
+
+  private labelIcon(text: string, color: string, fontSize: number): vscode.Uri {
+    return this.frameCache.label(text, color, fontSize, () => this.buildTextSvgDataUri(text, { color, fontSize }));
+  }
+
+  // Debug: time building every frame and a set of labels without the cache against cached lookups
+  async measureFrameTimes(iterations = 20): Promise<{
+    kinds: Array<{ kind: EffectKind; frames: number; sliced: boolean; uncached: FrameTimeStats; cached: FrameTimeStats }>;
+    labels: { uncached: FrameTimeStats; cached: FrameTimeStats };
+    live: FrameTimeStats;
+    cache: { frames: number; labels: number; hits: number; misses: number };
+  }> {
+    const time = (fn: () => void) => {
+      const start = performance.now();
+      fn();
+      return performance.now() - start;
+    };
+    const kinds: EffectKind[] = ['blip', 'boom', 'newline'];
+    const results = [];
+    for (const kind of kinds) {
+      await this.ensureSpriteData(kind);
+      const data = this.spriteData![kind];
+      const unsliced: SpriteData = { ...data, frameImages: undefined };
+      const uncached: number[] = [];
+      const cached: number[] = [];
+      for (let n = 0; n < iterations; n++) {
+        for (let idx = 0; idx < data.frames.length; idx++) {
+          const f = data.frames[idx];
+          // What every tick used to do: rebuild an SVG around the whole sheet
+          uncached.push(time(() => frameSvgUri(unsliced, idx, f.w, f.h)));
+          cached.push(time(() => this.frameIcon(kind, idx, f.w, f.h)));
+        }
+      }
+      results.push({ kind, frames: data.frames.length, sliced: !!data.frameImages, uncached: summarize(uncached), cached: summarize(cached) });
+    }
+    const sample = 'abcdefghijklmnopqrstuvwxyz0123456789';
+    const labelUncached: number[] = [];
+    const labelCached: number[] = [];
+    for (let n = 0; n < iterations; n++) {
+      for (const ch of sample) {
+        labelUncached.push(time(() => this.buildTextSvgDataUri(ch, { color: '#ffffff', fontSize: 18 })));
+        labelCached.push(time(() => this.labelIcon(ch, '#ffffff', 18)));
+      }
+    }
+    return {
+      kinds: results,
+      labels: { uncached: summarize(labelUncached), cached: summarize(labelCached) },
+      live: this.frameCache.frameTimes,
+      cache: { ...this.frameCache.size, hits: this.frameCache.hits, misses: this.frameCache.misses }
+    };
   }
 
   private clearSpriteAnim(editor: vscode.TextEditor, kind?: EffectKind) {
@@ -346,7 +492,7 @@ export class EffectManager {
     if (kind) editor.setDecorations(this.animDecoration, []);
   }
 
-  private async playSpriteAnim(editor: vscode.TextEditor, kind: EffectKind) {
+  private async playSpriteAnim(editor: vscode.TextEditor, kind: EffectKind, at?: vscode.Position | readonly vscode.Range[]) {
     await this.ensureSpriteData(kind);
     const data = this.spriteData![kind];
     if (!data || !data.frames.length) return;
@@ -355,17 +501,20 @@ export class EffectManager {
     if (!map) { map = {}; this.runningSpriteAnim.set(editor, map); }
     const existing = map[kind]; if (existing) { clearTimeout(existing); delete map[kind]; }
 
-    const caretRange = this.caretRange(editor);
-    const total = data.frameUris.length;
-    const frameMs = Math.max(10, Math.round(1000 / data.fps));
+    const caretRanges = this.targetRanges(editor, at);
+    const caretRange = caretRanges[0];
+    const total = data.frames.length;
+    // Looping animations cycle until the effect's lifetime is over
+    const endAt = Date.now() + this.getTtl(kind);
     let i = 0;
     const step = () => {
+      if (i >= total && data.loop && Date.now() < endAt) i = 0;
       if (i >= total) { editor.setDecorations(this.animDecoration, []); delete map![kind]; return; }
       const idx = i++;
-      const icon = data.frameUris[idx];
+      const tickStart = performance.now();
+      const frame = data.frames[idx];
       let opt: vscode.DecorationOptions;
       if (kind === 'boom') {
-        const frame = data.frames[idx];
         const hPx = Math.max(1, Math.round(frame?.h ?? 1));
         const wPx = Math.max(1, Math.round(frame?.w ?? 1));
         const fontPx = this.getEditorFontSizePx(editor);
@@ -376,11 +525,8 @@ export class EffectManager {
         const lineEm = this.getCaretHeightEm(editor);
         const txEm = -(widthEm / 2);
         const tyEm = (heightEm/2) - (lineEm / 2); // center vertically in line
-        // Build a per-frame SVG at the desired px size so the image is intrinsically sized correctly
-        const sheetW = data.sheetW;
-        const sheetH = data.sheetH;
-        const svg = `<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${wPx} ${hPx}" width="${targetWidthPx}" height="${targetHeightPx}">\n  <image href="data:image/png;base64,${data.pngBase64}" x="-${frame.x}" y="-${frame.y}" width="${sheetW}" height="${sheetH}" preserveAspectRatio="none"/>\n</svg>`;
-        const scaledIcon = vscode.Uri.parse('data:image/svg+xml;utf8,' + encodeURIComponent(svg));
+        // Per-frame SVG at the desired px size so the image is intrinsically sized correctly
+        const scaledIcon = this.frameIcon(kind, idx, targetWidthPx, targetHeightPx);
         opt = {
           range: caretRange,
           renderOptions: {
@@ -392,7 +538,6 @@ export class EffectManager {
           }
         };
       } else if (kind === 'blip') {
-        const frame = data.frames[idx];
         const hPx = Math.max(1, Math.round(frame?.h ?? 1));
         const wPx = Math.max(1, Math.round(frame?.w ?? 1));
         const fontPx = this.getEditorFontSizePx(editor);
@@ -407,7 +552,7 @@ export class EffectManager {
           range: caretRange,
           renderOptions: {
             after: {
-              contentIconPath: icon,
+              contentIconPath: this.frameIcon(kind, idx, frame.w, frame.h),
               height: `${heightEm}em`,
               width: '0',
               textDecoration: `none; position:absolute; display:inline-block; line-height:0; transform: translate(${txEm.toFixed(3)}em, ${tyEm.toFixed(3)}em); transform-origin:left bottom; pointer-events:none; z-index:1000;`
@@ -419,7 +564,7 @@ export class EffectManager {
           range: caretRange,
           renderOptions: {
             after: {
-              contentIconPath: icon,
+              contentIconPath: this.frameIcon(kind, idx, frame.w, frame.h),
               height: '1.2em',
               width: '0',
               textDecoration: 'none; position:absolute; display:inline-block; line-height:0; transform: translate(-0.6em, -1.2em); transform-origin:left bottom; pointer-events:none; z-index:1000;'
@@ -427,24 +572,25 @@ export class EffectManager {
           }
         };
       }
-      editor.setDecorations(this.animDecoration, [opt]);
-      map![kind] = setTimeout(step, frameMs);
+      editor.setDecorations(this.animDecoration, caretRanges.map(range => ({ ...opt, range })));
+      this.frameCache.recordTick(performance.now() - tickStart);
+      map![kind] = setTimeout(step, data.frameMs[idx]);
     };
     step();
   }
 
-  private applyOnce(editor: vscode.TextEditor, kind: EffectKind, label?: string) {
+  private applyOnce(editor: vscode.TextEditor, kind: EffectKind, label?: string, at?: vscode.Position | readonly vscode.Range[]) {
     if (!this.canAddDecoration(editor, kind)) {
       return; // Skip if too many decorations
     }
-    const range = this.caretRange(editor);
+    const ranges = this.targetRanges(editor, at);
     const dec = (kind === "blip" ? this.blipDecoration : kind === "boom" ? this.boomDecoration : this.newlineDecoration);
 
     // Build render options with optional text label via "renderOptions" at runtime
-    const opt: vscode.DecorationOptions = (() => {
+    const opts: vscode.DecorationOptions[] = ranges.map(range => {
       if (label) {
-        const color = this.randomGodotColor();
-          const icon = this.buildTextSvgDataUri(label, { color, fontSize: 18 });
+        const color = this.skin.colors[kind] ?? this.randomGodotColor();
+        const icon = this.labelIcon(label, color, 18);
         return {
           range,
           renderOptions: {
@@ -458,14 +604,15 @@ export class EffectManager {
         } as vscode.DecorationOptions;
       }
       return { range } as vscode.DecorationOptions;
-    })();
+    });
 
     // Push to buffer and render all active decorations for this kind
     const buffer = this.getEditorState(editor).buffers[kind];
-    buffer.push({ opt, createdAt: Date.now() });
+    const createdAt = Date.now();
+    for (const opt of opts) buffer.push({ opt, createdAt });
     const { maxTrail } = this.getComboConfig();
-    const cap = Math.max(maxTrail, this.MAX_DECORATIONS_PER_TYPE);
-    if (buffer.length > cap) {
+    const cap = Math.max(maxTrail, this.MAX_DECORATIONS_PER_TYPE) * opts.length;
+    while (buffer.length > cap) {
       buffer.shift();
     }
     editor.setDecorations(dec, buffer.map(b => b.opt));
@@ -481,10 +628,10 @@ export class EffectManager {
       try {
         const st = this.getEditorState(editor);
         const arr = st.buffers[kind];
-        const idx = arr.findIndex(x => x.opt === opt);
-        if (idx !== -1) {
-          arr.splice(idx, 1);
-          editor.setDecorations(dec, arr.map(b => b.opt));
+        const remaining = arr.filter(x => !opts.includes(x.opt));
+        if (remaining.length !== arr.length) {
+          st.buffers[kind] = remaining;
+          editor.setDecorations(dec, remaining.map(b => b.opt));
         }
         st.activeDecorations[kind] = Math.max(0, st.activeDecorations[kind] - 1);
       } catch {
@@ -493,82 +640,57 @@ export class EffectManager {
     }, ttl);
   }
 
-  private shake(editor: vscode.TextEditor, extendMs: number) {
+  private shake(editor: vscode.TextEditor, kind: EffectKind, extendMs: number) {
     const state = this.getEditorState(editor);
     const now = Date.now();
     const cfg = vscode.workspace.getConfiguration('ridiculousCoding');
     const decayMs = Math.max(20, cfg.get<number>('shakeDecayMs', 120));
-    const maxExtend = Math.max(extendMs, decayMs);
-    state.shakeEndAt = Math.max(state.shakeEndAt ?? 0, now + maxExtend);
+    const defaults: Record<EffectKind, ShakeProfileName> = { blip: 'decay', boom: 'decay', newline: 'impact' };
+    const profile = cfg.get<ShakeProfileName>(`shakeProfile.${kind}`, defaults[kind]);
+    const intensityMode = cfg.get<ShakeIntensity>('shakeIntensity', 'fixed');
 
-    // Fixed amplitude for uniform magnitude in all directions
+    // Base amplitude scaled by typing rate or combo when configured
     const amplitudePx = Math.max(0, Math.min(32, cfg.get<number>('shakeAmplitude', 6)));
-
-    const getKey = (x: number, y: number) => `${x}_${y}`;
-    const getDeco = (x: number, y: number) => {
-      const key = getKey(x, y);
-      let deco = this.shakeDecoCache.get(key);
-      if (!deco) {
-        deco = vscode.window.createTextEditorDecorationType({
-          isWholeLine: true,
-          rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
-          textDecoration: `none; position: relative; left: ${x}px; top: ${y}px;`
-        });
-        this.shakeDecoCache.set(key, deco);
+    const recent = this.keystrokes.filter(t => now - t <= 2000).length;
+    const scaled = Math.min(32, amplitudePx * shakeIntensity(intensityMode, recent / 2, this.comboCount));
+    if (this.shakePool.ensure(Math.min(32, amplitudePx * MAX_SHAKE_INTENSITY))) {
+      // Old types were disposed along with their decorations
+      for (const editor of vscode.window.visibleTextEditors) {
+        const st = this.editorStates.get(editor);
+        if (st) st.activeShakeIndex = undefined;
       }
-      return { key, deco };
-    };
+    }
 
-    const visibleLineRanges = () => {
-      const ranges: vscode.Range[] = [];
-      const doc = editor.document;
-      for (const r of editor.visibleRanges) {
-        const startLine = Math.max(0, r.start.line);
-        const endLine = Math.min(doc.lineCount - 1, r.end.line);
-        for (let line = startLine; line <= endLine; line++) {
-          const textLine = doc.lineAt(line);
-          ranges.push(new vscode.Range(line, 0, line, textLine.range.end.character));
-        }
-      }
-      // Fallback to entire doc if visibleRanges is empty
-      if (!ranges.length && doc.lineCount > 0) {
-        for (let line = 0; line < doc.lineCount; line++) {
-          const textLine = doc.lineAt(line);
-          ranges.push(new vscode.Range(line, 0, line, textLine.range.end.character));
-        }
-      }
-      return ranges;
-    };
+    // The latest shake restarts the profile; a stronger one still running keeps its amplitude
+    const running = state.shakeEndAt !== undefined && now < state.shakeEndAt;
+    state.shakeAmplitudePx = running ? Math.max(scaled, state.shakeAmplitudePx ?? 0) : scaled;
+    state.shakeProfile = profile;
+    state.shakeStartAt = now;
+    state.shakeEndAt = now + Math.max(extendMs, decayMs);
+    state.shakeTick = 0;
 
     const applyShake = () => {
       const elapsedNow = Date.now();
       if (!state.shakeEndAt || elapsedNow > state.shakeEndAt) {
-        // Clear any active shake decoration
-        if (state.activeShakeDecoKey) {
-          const prev = this.shakeDecoCache.get(state.activeShakeDecoKey);
-          if (prev) editor.setDecorations(prev, []);
-          state.activeShakeDecoKey = undefined;
-        }
+        this.clearShake(editor, state);
         state.shakeTimer = undefined;
+        state.shakeEndAt = undefined;
         return;
       }
 
-      // Pick a random direction on the circle, fixed radius
-      const angle = Math.random() * Math.PI * 2;
-      const dx = Math.round(Math.cos(angle) * amplitudePx);
-      const dy = Math.round(Math.sin(angle) * amplitudePx);
-      const { key, deco } = getDeco(dx, dy);
-
-      // Clear previous decoration if different
-      if (state.activeShakeDecoKey && state.activeShakeDecoKey !== key) {
-        const prev = this.shakeDecoCache.get(state.activeShakeDecoKey);
-        if (prev) editor.setDecorations(prev, []);
+      const start = state.shakeStartAt ?? elapsedNow;
+      const t = Math.min(1, (elapsedNow - start) / Math.max(1, state.shakeEndAt - start));
+      const { dx, dy } = shakeOffset(state.shakeProfile ?? 'jitter', t, state.shakeTick ?? 0, state.shakeAmplitudePx ?? 0);
+      state.shakeTick = (state.shakeTick ?? 0) + 1;
+      const offset = this.shakePool.nearest(dx, dy);
+      if (offset?.index !== state.activeShakeIndex) {
+        this.clearShake(editor, state);
+        if (offset) {
+          editor.setDecorations(offset.type, this.shakeLines(editor, state));
+          state.activeShakeIndex = offset.index;
+        }
       }
 
-      const ranges = visibleLineRanges();
-      editor.setDecorations(deco, ranges);
-      state.activeShakeDecoKey = key;
-
       state.shakeTimer = setTimeout(applyShake, 16);
     };
 
@@ -577,39 +699,144 @@ export class EffectManager {
     }
   }
 
-  showBlip(editor: vscode.TextEditor, showChars: boolean, shake?: boolean, charLabel?: string) {
+  // Play one effect kind's shake regardless of the shake toggle, for the panel preview
+  previewShake(editor: vscode.TextEditor, kind: EffectKind) {
+    this.shake(editor, kind, SHAKE_MS[kind]);
+  }
+
+  private recordKeystroke() {
+    const now = Date.now();
+    this.keystrokes.push(now);
+    while (this.keystrokes.length && now - this.keystrokes[0] > 2000) this.keystrokes.shift();
+  }
+
+  private clearShake(editor: vscode.TextEditor, state: EditorState) {
+    if (state.activeShakeIndex === undefined) return;
+    const prev = this.shakePool.get(state.activeShakeIndex);
+    if (prev) editor.setDecorations(prev, []);
+    state.activeShakeIndex = undefined;
+  }
+
+  // One whole-line range per visible block; rebuilt only after visibleRanges change
+  private shakeLines(editor: vscode.TextEditor, state: EditorState): vscode.Range[] {
+    if (state.shakeLines) return state.shakeLines;
+    const lastLine = Math.max(0, editor.document.lineCount - 1);
+    const ranges = editor.visibleRanges.map(r => new vscode.Range(r.start.line, 0, Math.min(lastLine, r.end.line), 0));
+    // Fallback to entire doc if visibleRanges is empty
+    state.shakeLines = ranges.length ? ranges : [new vscode.Range(0, 0, lastLine, 0)];
+    return state.shakeLines;
+  }
+
+  showBlip(editor: vscode.TextEditor, showChars: boolean, shake?: boolean, charLabel?: string, at?: vscode.Position) {
     const state = this.getEditorState(editor);
     const now = Date.now();
-    let didVisual = false;
     if (now - state.lastBlipAt >= 20) {
       state.lastBlipAt = now;
       this.clearSpriteAnim(editor); // reset previous anims on new keypress
-      this.applyOnce(editor, "blip", showChars ? charLabel : undefined);
-      this.playSpriteAnim(editor, 'blip');
-      didVisual = true;
+      this.applyOnce(editor, "blip", showChars ? charLabel : undefined, at);
+      this.playSpriteAnim(editor, 'blip', at);
     }
-  if (shake) this.shake(editor, 120);
+    this.recordKeystroke();
+  if (shake) this.shake(editor, 'blip', SHAKE_MS.blip);
   }
 
-  showBoom(editor: vscode.TextEditor, showChars: boolean, shake?: boolean, charLabel?: string) {
+  showBoom(editor: vscode.TextEditor, showChars: boolean, shake?: boolean, charLabel?: string, at?: vscode.Position) {
     const state = this.getEditorState(editor);
     const now = Date.now();
-    let didVisual = false;
     if (now - state.lastBoomAt >= 100) {
       state.lastBoomAt = now;
       this.clearSpriteAnim(editor);
-      this.applyOnce(editor, "boom", showChars ? charLabel : undefined);
-      this.playSpriteAnim(editor, 'boom');
-      didVisual = true;
+      this.applyOnce(editor, "boom", showChars ? charLabel : undefined, at);
+      this.playSpriteAnim(editor, 'boom', at);
     }
-  if (shake) this.shake(editor, 180);
+    this.recordKeystroke();
+  if (shake) this.shake(editor, 'boom', SHAKE_MS.boom);
+  }
+
+  // Booms over the given ranges rather than the caret, e.g. where fixed errors used to be
+  showBoomAt(editor: vscode.TextEditor, ranges: readonly vscode.Range[], shake?: boolean) {
+    if (!ranges.length) return;
+    this.clearSpriteAnim(editor);
+    this.applyOnce(editor, "boom", undefined, ranges);
+    this.playSpriteAnim(editor, 'boom', ranges);
+    if (shake) this.shake(editor, 'boom', SHAKE_MS.boom);
+  }
+
+  // A small label over new problems; no sprite or shake so it stays out of the way
+  showUhOh(editor: vscode.TextEditor, ranges: readonly vscode.Range[]) {
+    if (!ranges.length) return;
+    const state = this.getEditorState(editor);
+    const now = Date.now();
+    const icon = this.labelIcon("uh-oh", '#ff5f56', 18);
+    const opts = this.targetRanges(editor, ranges).map(range => ({
+      range,
+      renderOptions: {
+        after: {
+          contentIconPath: icon,
+          height: '1em',
+          width: '0',
+          textDecoration: `none; position: absolute; display: inline-block; line-height: 0; transform: translateY(-1.1em) scale(1.6); transform-origin: left bottom; pointer-events: none; z-index: 1000;`
+        }
+      }
+    } as vscode.DecorationOptions));
+    state.uhOh = [...state.uhOh.filter(x => now - x.createdAt < UH_OH_MS), ...opts.map(opt => ({ opt, createdAt: now }))]
+      .slice(-this.MAX_CURSOR_EFFECTS);
+    editor.setDecorations(this.uhOhDecoration, state.uhOh.map(x => x.opt));
+    setTimeout(() => {
+      try {
+        const st = this.getEditorState(editor);
+        st.uhOh = st.uhOh.filter(x => !opts.includes(x.opt));
+        editor.setDecorations(this.uhOhDecoration, st.uhOh.map(x => x.opt));
+      } catch {
+        // no-op - editor might have been disposed
+      }
+    }, UH_OH_MS);
   }
 
   showNewline(editor: vscode.TextEditor, shake: boolean) {
     this.clearSpriteAnim(editor);
     this.applyOnce(editor, "newline");
     this.playSpriteAnim(editor, 'newline');
-  if (shake) this.shake(editor, 140);
+  if (shake) this.shake(editor, 'newline', SHAKE_MS.newline);
+  }
+
+  // Combo counter next to the caret; milestones render bigger and shake harder
+  showCombo(editor: vscode.TextEditor, count: number, milestone?: number, shake?: boolean) {
+    this.comboCount = count;
+    if (count < 2) {
+      editor.setDecorations(this.comboDecoration, []);
+      return;
+    }
+    const label = milestone ? `x${count} COMBO!` : `x${count}`;
+    const color = milestone ? '#ffd400' : '#ff8a00';
+    const icon = this.labelIcon(label, color, milestone ? 24 : 14);
+    const opt: vscode.DecorationOptions = {
+      range: this.caretRange(editor),
+      renderOptions: {
+        after: {
+          contentIconPath: icon,
+          height: milestone ? '1.6em' : '1em',
+          width: '0',
+          textDecoration: `none; position: absolute; display: inline-block; line-height: 0; transform: translate(1.5em, ${milestone ? -2.2 : -1.4}em); transform-origin: left bottom; pointer-events: none; z-index: 1001;`
+        }
+      }
+    };
+    editor.setDecorations(this.comboDecoration, [opt]);
+    if (milestone) {
+      this.playSpriteAnim(editor, 'boom');
+      if (shake) this.shake(editor, 'boom', 400);
+    }
+  }
+
+  hideCombo() {
+    this.comboCount = 0;
+    for (const editor of vscode.window.visibleTextEditors) {
+      try {
+        editor.setDecorations(this.comboDecoration, []);
+      } catch {
+        // no-op - editor might have been disposed
+      }
+    }
   }
 
   // Method to clean up all decorations for an editor (useful for reduced effects)
@@ -618,19 +845,24 @@ export class EffectManager {
       editor.setDecorations(this.blipDecoration, []);
       editor.setDecorations(this.boomDecoration, []);
       editor.setDecorations(this.newlineDecoration, []);
-      editor.setDecorations(this.jitterLeft, []);
-      editor.setDecorations(this.jitterRight, []);
+      editor.setDecorations(this.comboDecoration, []);
+      editor.setDecorations(this.uhOhDecoration, []);
       
       // Reset decoration counts
       const state = this.getEditorState(editor);
       state.activeDecorations = { blip: 0, boom: 0, newline: 0 };
       state.buffers = { blip: [], boom: [], newline: [] };
+      state.uhOh = [];
       // Stop any anim timers
       for (const k of ["blip","boom","newline"] as EffectKind[]) {
         const t = state.animTimers[k];
         if (t) clearTimeout(t);
         delete state.animTimers[k];
       }
+      if (state.shakeTimer) clearTimeout(state.shakeTimer);
+      state.shakeTimer = undefined;
+      state.shakeEndAt = undefined;
+      this.clearShake(editor, state);
     } catch {
       // no-op - editor might have been disposed
     }
@@ -0,0 +1,75 @@
+import * as vscode from "vscode";
+import { EffectKind } from "../types";
+
+// Labels are keyed by text, color and size; the oldest entries are evicted past this count
+const MAX_LABELS = 512;
+// Frame-time samples kept for the debug report
+const MAX_SAMPLES = 500;
+
+export type FrameTimeStats = { samples: number; avgMs: number; p95Ms: number; maxMs: number };
+
+// Icon data URIs built once and reused for every later tick of the same frame
+export class FrameCache {
+  private frames = new Map<string, vscode.Uri>();
+  private labels = new Map<string, vscode.Uri>();
+  private samples: number[] = [];
+  hits = 0;
+  misses = 0;
+
+  frame(kind: EffectKind, index: number, width: number, height: number, build: () => vscode.Uri): vscode.Uri {
+    return this.lookup(this.frames, `${kind}:${index}:${width}x${height}`, build);
+  }
+
+  label(text: string, color: string, fontSize: number, build: () => vscode.Uri): vscode.Uri {
+    const uri = this.lookup(this.labels, `${fontSize}:${color}:${text}`, build);
+    if (this.labels.size > MAX_LABELS) this.labels.delete(this.labels.keys().next().value!);
+    return uri;
+  }
+
+  get size(): { frames: number; labels: number } {
+    return { frames: this.frames.size, labels: this.labels.size };
+  }
+
+  // Time spent rendering one animation tick
+  recordTick(ms: number) {
+    this.samples.push(ms);
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+  }
+
+  get frameTimes(): FrameTimeStats {
+    return summarize(this.samples);
+  }
+
+  clear() {
+    this.frames.clear();
+    this.labels.clear();
+    this.samples = [];
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  private lookup(map: Map<string, vscode.Uri>, key: string, build: () => vscode.Uri): vscode.Uri {
+    let uri = map.get(key);
+    if (uri) {
+      this.hits++;
+      // Re-insert so Map order tracks recent use
+      map.delete(key);
+    } else {
+      this.misses++;
+      uri = build();
+    }
+    map.set(key, uri);
+    return uri;
+  }
+}
+
+export function summarize(samples: number[]): FrameTimeStats {
+  if (!samples.length) return { samples: 0, avgMs: 0, p95Ms: 0, maxMs: 0 };
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    samples: sorted.length,
+    avgMs: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    maxMs: sorted[sorted.length - 1]
+  };
+}
@@ -0,0 +1,119 @@
+import * as zlib from "zlib";
+import { FrameRect } from "../sprites/SpriteAnimation";
+
+// Cuts frames out of a PNG sheet so each frame icon embeds only its own pixels.
+// Handles 8-bit, non-interlaced images of every color type; anything else returns
+// undefined and callers fall back to clipping the whole sheet.
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (const byte of buf) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, "ascii");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+type DecodedPng = { width: number; height: number; colorType: number; bpp: number; pixels: Buffer; extra: Buffer[] };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+function decode(bytes: Uint8Array): DecodedPng | undefined {
+  const buf = Buffer.from(bytes);
+  if (buf.length < 33 || !buf.subarray(0, 8).equals(SIGNATURE)) return undefined;
+  let width = 0, height = 0, colorType = 0, pos = 8;
+  const idat: Buffer[] = [];
+  const extra: Buffer[] = [];
+  while (pos + 8 <= buf.length) {
+    const len = buf.readUInt32BE(pos);
+    const type = buf.toString("ascii", pos + 4, pos + 8);
+    const data = buf.subarray(pos + 8, pos + 8 + len);
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      colorType = data[9];
+      if (data[8] !== 8 || data[12] !== 0 || !(colorType in CHANNELS)) return undefined;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "PLTE" || type === "tRNS") {
+      extra.push(chunk(type, data));
+    }
+    pos += 12 + len;
+  }
+  const bpp = CHANNELS[colorType];
+  const stride = width * bpp;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  if (raw.length < height * (stride + 1)) return undefined;
+
+  // Undo per-scanline filters
+  const pixels = Buffer.alloc(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? pixels[row + x - bpp] : 0;
+      const b = y > 0 ? pixels[row - stride + x] : 0;
+      const c = x >= bpp && y > 0 ? pixels[row - stride + x - bpp] : 0;
+      const v = raw[src + x];
+      pixels[row + x] = (filter === 1 ? v + a : filter === 2 ? v + b : filter === 3 ? v + ((a + b) >> 1) : filter === 4 ? v + paeth(a, b, c) : v) & 0xff;
+    }
+  }
+  return { width, height, colorType, bpp, pixels, extra };
+}
+
+function encode(png: DecodedPng, region: FrameRect): Buffer {
+  const { x, y, w, h } = region;
+  const stride = w * png.bpp;
+  const raw = Buffer.alloc(h * (stride + 1));
+  for (let row = 0; row < h; row++) {
+    const from = ((y + row) * png.width + x) * png.bpp;
+    png.pixels.copy(raw, row * (stride + 1) + 1, from, from + stride); // filter byte 0 = none
+  }
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(w, 0);
+  ihdr.writeUInt32BE(h, 4);
+  ihdr[8] = 8;
+  ihdr[9] = png.colorType;
+  return Buffer.concat([SIGNATURE, chunk("IHDR", ihdr), ...png.extra, chunk("IDAT", zlib.deflateSync(raw)), chunk("IEND", Buffer.alloc(0))]);
+}
+
+// One PNG per region, or undefined when the sheet cannot be sliced
+export function slicePng(bytes: Uint8Array, regions: FrameRect[]): Buffer[] | undefined {
+  let png: DecodedPng | undefined;
+  try {
+    png = decode(bytes);
+  } catch {
+    return undefined;
+  }
+  if (!png) return undefined;
+  const decoded = png;
+  const inside = (r: FrameRect) =>
+    [r.x, r.y, r.w, r.h].every(Number.isInteger) && r.x >= 0 && r.y >= 0 && r.w > 0 && r.h > 0 &&
+    r.x + r.w <= decoded.width && r.y + r.h <= decoded.height;
+  if (!regions.every(inside)) return undefined;
+  return regions.map(r => encode(decoded, r));
+}
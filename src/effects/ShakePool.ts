@@ -0,0 +1,56 @@
+import * as vscode from "vscode";
+
+// Offsets are quantized to this many directions and rings of the current amplitude
+const DIRECTIONS = 8;
+const RINGS = 4;
+
+export type ShakeOffset = { index: number; type: vscode.TextEditorDecorationType };
+
+// Fixed set of whole-line offset decoration types shared by every editor. The pool is
+// rebuilt only when the amplitude changes and disposed with the EffectManager.
+export class ShakePool implements vscode.Disposable {
+  private types: vscode.TextEditorDecorationType[] = [];
+  private amplitudePx = -1;
+
+  // Make sure the pool matches the amplitude; returns true when the types were recreated
+  ensure(amplitudePx: number): boolean {
+    if (amplitudePx === this.amplitudePx && this.types.length) return false;
+    this.dispose();
+    this.amplitudePx = amplitudePx;
+    for (let ring = 1; ring <= RINGS; ring++) {
+      const radius = (amplitudePx * ring) / RINGS;
+      for (let dir = 0; dir < DIRECTIONS; dir++) {
+        const angle = (dir / DIRECTIONS) * Math.PI * 2;
+        const x = Math.round(Math.cos(angle) * radius);
+        const y = Math.round(Math.sin(angle) * radius);
+        this.types.push(vscode.window.createTextEditorDecorationType({
+          isWholeLine: true,
+          rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+          textDecoration: `none; position: relative; left: ${x}px; top: ${y}px;`
+        }));
+      }
+    }
+    return true;
+  }
+
+  // Pooled type closest to the requested offset, or undefined when it rounds to no movement
+  nearest(dx: number, dy: number): ShakeOffset | undefined {
+    const magnitude = Math.hypot(dx, dy);
+    if (!this.types.length || this.amplitudePx <= 0) return undefined;
+    const ring = Math.min(RINGS, Math.round((magnitude / this.amplitudePx) * RINGS));
+    if (ring < 1) return undefined;
+    const turn = (Math.atan2(dy, dx) / (Math.PI * 2) + 1) % 1;
+    const dir = Math.round(turn * DIRECTIONS) % DIRECTIONS;
+    const index = (ring - 1) * DIRECTIONS + dir;
+    return { index, type: this.types[index] };
+  }
+
+  get(index: number): vscode.TextEditorDecorationType | undefined {
+    return this.types[index];
+  }
+
+  dispose() {
+    for (const t of this.types) t.dispose();
+    this.types = [];
+  }
+}
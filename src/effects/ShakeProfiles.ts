@@ -0,0 +1,42 @@
+import { ShakeIntensity, ShakeProfileName } from "../types";
+
+export const SHAKE_PROFILES: ShakeProfileName[] = ["jitter", "decay", "rumble", "impact"];
+
+// Largest intensity factor; the offset pool is built for amplitude × this
+export const MAX_SHAKE_INTENSITY = 2;
+
+// Offset in px for one tick; t runs from 0 to 1 over the shake, tick counts from 0
+export function shakeOffset(profile: ShakeProfileName, t: number, tick: number, amplitudePx: number): { dx: number; dy: number } {
+  const alternate = tick % 2 === 0 ? 1 : -1;
+  switch (profile) {
+    case "decay": {
+      // Random direction, radius falling off exponentially
+      const angle = Math.random() * Math.PI * 2;
+      const r = amplitudePx * Math.exp(-4 * t);
+      return { dx: Math.cos(angle) * r, dy: Math.sin(angle) * r };
+    }
+    case "rumble":
+      // Horizontal only, side to side with a little randomness, easing out
+      return { dx: alternate * amplitudePx * (1 - 0.6 * t) * (0.6 + 0.4 * Math.random()), dy: 0 };
+    case "impact":
+      // Vertical jolt down, then quickly damped bounces
+      return { dx: 0, dy: alternate * amplitudePx * Math.exp(-5 * t) };
+    default: {
+      // Fixed radius, random direction
+      const angle = Math.random() * Math.PI * 2;
+      return { dx: Math.cos(angle) * amplitudePx, dy: Math.sin(angle) * amplitudePx };
+    }
+  }
+}
+
+// Intensity factor from the current typing rate (chars/second) or combo count
+export function shakeIntensity(mode: ShakeIntensity, charsPerSecond: number, comboCount: number): number {
+  switch (mode) {
+    case "typingRate":
+      return Math.max(0.5, Math.min(MAX_SHAKE_INTENSITY, 0.5 + charsPerSecond / 8));
+    case "combo":
+      return 1 + (MAX_SHAKE_INTENSITY - 1) * Math.min(comboCount, 50) / 50;
+    default:
+      return 1;
+  }
+}
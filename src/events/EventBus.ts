@@ -0,0 +1,70 @@
+import * as vscode from "vscode";
+import { AchievementEvent, ApiEffectKind, LevelUpEvent, MilestoneEvent, XpEvent } from "../api";
+import { EditKind } from "../xp/EditClassifier";
+
+export interface EffectRequest {
+  kind: ApiEffectKind;
+  editor?: vscode.TextEditor;
+  position?: vscode.Position;
+}
+
+// An edit as seen inside the extension; the API only exposes a plain copy
+export interface EditEvent {
+  editor: vscode.TextEditor;
+  document: vscode.TextDocument;
+  position: vscode.Position;
+  editKind: EditKind;
+  // Characters inserted (keystroke) or deleted (boom) across all cursors
+  chars: number;
+  combo: number;
+  effects: boolean;
+}
+
+// Everything that flows between the edit handler, XP, effects and the panel
+export type BusEvents = {
+  // `text` is what the first change inserted and may contain newlines
+  keystroke: EditEvent & { text: string };
+  boom: EditEvent;
+  xp: XpEvent;
+  levelUp: LevelUpEvent;
+  achievement: AchievementEvent;
+  milestone: MilestoneEvent;
+  effect: EffectRequest;
+};
+
+// Typed emitters created on first use. Listener errors are caught by the emitters, so a
+// misbehaving subscriber cannot break the edit handler.
+export class EventBus implements vscode.Disposable {
+  private readonly emitters = new Map<keyof BusEvents, vscode.EventEmitter<unknown>>();
+
+  event<K extends keyof BusEvents>(name: K): vscode.Event<BusEvents[K]> {
+    return this.emitter(name).event as vscode.Event<BusEvents[K]>;
+  }
+
+  // An event carrying a converted payload, so listeners never see the bus payload itself
+  map<K extends keyof BusEvents, T>(name: K, convert: (e: BusEvents[K]) => T): vscode.Event<T> {
+    return (listener, thisArgs, disposables) => this.event(name)(e => listener.call(thisArgs, convert(e)), undefined, disposables);
+  }
+
+  on<K extends keyof BusEvents>(name: K, listener: (e: BusEvents[K]) => void): vscode.Disposable {
+    return this.event(name)(listener);
+  }
+
+  emit<K extends keyof BusEvents>(name: K, payload: BusEvents[K]) {
+    this.emitters.get(name)?.fire(payload);
+  }
+
+  dispose() {
+    for (const e of this.emitters.values()) e.dispose();
+    this.emitters.clear();
+  }
+
+  private emitter(name: keyof BusEvents): vscode.EventEmitter<unknown> {
+    let e = this.emitters.get(name);
+    if (!e) {
+      e = new vscode.EventEmitter<unknown>();
+      this.emitters.set(name, e);
+    }
+    return e;
+  }
+}
@@ -1,10 +1,53 @@
 import * as vscode from "vscode";
 import { EffectManager } from "./effects/EffectManager";
+import { FrameTimeStats } from "./effects/FrameCache";
 import { XPService } from "./xp/XPService";
+import { XPRules, countChanges } from "./xp/XPRules";
+import { EditClassifier } from "./xp/EditClassifier";
+import { SkillService } from "./xp/SkillService";
+import { CurveName, CurveSpec } from "./xp/LevelCurves";
+import { ComboService } from "./combo/ComboService";
+import { AudioMixer } from "./audio/AudioMixer";
+import { MusicalTyping } from "./audio/MusicalTyping";
+import { AudioRouter } from "./audio/AudioRouter";
+import { EditorAudioSink, SidebarAudioSink } from "./audio/AudioSinks";
+import { AchievementService } from "./achievements/AchievementService";
+import { StatsService } from "./stats/StatsService";
+import { PrestigeService } from "./prestige/PrestigeService";
+import { DEFAULT_SKIN_ID, SKIN_MANIFEST, SkinService } from "./skins/SkinService";
+import { PROGRESS_KEYS, ImportMode, ProgressDocument, exportProgress, importProgress, validateProgress } from "./progress/ProgressTransfer";
 import { PanelViewProvider } from "./view/PanelViewProvider";
-import { PanelMessageFromExt, Settings } from "./types";
+import { EditEvent, EventBus } from "./events/EventBus";
+import { MilestoneService } from "./milestones/MilestoneService";
+import { DiagnosticWatcher } from "./diagnostics/DiagnosticWatcher";
+import { FocusSessionService } from "./sessions/FocusSessionService";
+import { StateWriter } from "./state/StateWriter";
+import { QuestService } from "./quests/QuestService";
+import { BoomEvent, KeystrokeEvent, RidiculousCodingApi } from "./api";
+import { EffectKind, PanelMessageFromExt, SessionRecord, Settings } from "./types";
 
-export function activate(context: vscode.ExtensionContext) {
+// Batched progress writes; deactivate returns its flush so VS Code waits for the last batch
+let stateWriter: StateWriter | undefined;
+
+function curveFromConfig(): CurveSpec {
+  const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+  const name = cfg.get<CurveName>("leveling.curve", "original");
+  const baseXp = Math.max(10, cfg.get<number>("leveling.baseXp", 50));
+  const table = cfg.get<number[]>("leveling.customTable", []);
+  return name === "custom" ? { name, baseXp, table } : { name, baseXp };
+}
+
+// The plain copy of an edit handed to API listeners
+function toApiEdit(e: EditEvent): KeystrokeEvent & BoomEvent {
+  return {
+    languageId: e.document.languageId,
+    chars: e.chars,
+    combo: e.combo,
+    position: { line: e.position.line, character: e.position.character }
+  };
+}
+
+export function activate(context: vscode.ExtensionContext): RidiculousCodingApi {
   const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
   let settings: Settings = {
     explosions: cfg.get("explosions", true),
@@ -13,57 +56,320 @@ export function activate(context: vscode.ExtensionContext) {
     shake: cfg.get("shake", true),
     shakeAmplitude: cfg.get("shakeAmplitude", 6),
     shakeDecayMs: cfg.get("shakeDecayMs", 120),
+    shakeProfiles: {
+      blip: cfg.get("shakeProfile.blip", "decay"),
+      boom: cfg.get("shakeProfile.boom", "decay"),
+      newline: cfg.get("shakeProfile.newline", "impact")
+    },
+    shakeIntensity: cfg.get("shakeIntensity", "fixed"),
     sound: cfg.get("sound", true),
     fireworks: cfg.get("fireworks", true),
     baseXp: cfg.get("leveling.baseXp", 50),
     enableStatusBar: cfg.get("enableStatusBar", true),
-    reducedEffects: cfg.get("reducedEffects", false)
+    reducedEffects: cfg.get("reducedEffects", false),
+    combo: cfg.get("combo.enabled", true)
   };
 
-  const xp = new XPService(context, settings.baseXp);
-  const effects = new EffectManager(context);
-  const panelProvider = new PanelViewProvider(context);
+  const writer = (stateWriter = new StateWriter(context.globalState));
+  const xp = new XPService(context, curveFromConfig(), writer);
+  const skins = new SkinService(context);
+  const effects = new EffectManager(context, skins.builtIn);
+  const xpRules = new XPRules();
+  const skills = new SkillService(context, curveFromConfig(), writer);
+  const classifier = new EditClassifier();
+  const combo = new ComboService();
+  const achievements = new AchievementService(context, writer);
+  const stats = new StatsService(context, writer);
+  const prestige = new PrestigeService(context);
+  const mixer = new AudioMixer(context);
+  const music = new MusicalTyping();
+  // Edits, XP, achievements and effect requests are published here and consumed below
+  const bus = new EventBus();
+  const milestones = new MilestoneService(context);
+  const diagnostics = new DiagnosticWatcher();
+  const sessions = new FocusSessionService(context);
+  const quests = new QuestService(context, writer);
+  context.subscriptions.push(writer, effects, combo, achievements, mixer, bus, milestones, diagnostics, sessions, quests);
+  // Catch up on level achievements for progress made before they existed
+  achievements.observe({ level: xp.level });
+  const panelProvider = new PanelViewProvider(context, skins.builtIn);
   context.subscriptions.push(
-    vscode.window.registerWebviewViewProvider(PanelViewProvider.viewType, panelProvider)
+    // Retained while hidden so sounds keep playing with the sidebar collapsed
+    vscode.window.registerWebviewViewProvider(PanelViewProvider.viewType, panelProvider, {
+      webviewOptions: { retainContextWhenHidden: true }
+    })
   );
+  // Sounds go to the sidebar panel, or to a small editor-area panel until the sidebar has loaded
+  const sidebarSink = new SidebarAudioSink(panelProvider);
+  const editorSink = new EditorAudioSink(context, skins.builtIn);
+  const audio = new AudioRouter([sidebarSink, editorSink]);
+  audio.fallbackEnabled = cfg.get("audio.fallbackPanel", true);
+  audio.post({ type: "mixer", ...mixer.view });
+  context.subscriptions.push(audio, sidebarSink, editorSink);
 
   // Status bar
   const status = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
   status.command = "ridiculousCoding.showPanel";
   context.subscriptions.push(status);
 
+  // XP and combo change on every keystroke; the status bar redraws at most this often
+  const STATUS_UPDATE_MS = 150;
+  let statusTimer: NodeJS.Timeout | undefined;
   function updateStatus() {
+    if (statusTimer) return;
+    statusTimer = setTimeout(() => {
+      statusTimer = undefined;
+      renderStatus();
+    }, STATUS_UPDATE_MS);
+  }
+
+  function renderStatus() {
     if (!settings.enableStatusBar) {
       status.hide();
       return;
     }
     const prog = xp.progress;
-    status.text = `$(rocket) RC Lv ${xp.level} — ${prog.current}/${prog.max} XP`;
-    status.tooltip = `Ridiculous Coding\nLevel ${xp.level}\n${prog.current}/${prog.max} XP`;
+    const comboText = combo.count > 1 ? ` — $(flame) x${combo.count}` : "";
+    const prestigeText = prestige.count > 0 ? `P${prestige.count} ` : "";
+    const muteText = mixer.muted ? " $(mute)" : "";
+    const session = sessions.active;
+    const sessionText = session ? `${session.phase === "focus" ? "$(watch)" : "$(coffee)"} ${countdown(session.phaseEndsAt)} ` : "";
+    status.text = `${sessionText}${prestige.tier.icon} RC ${prestigeText}Lv ${xp.level} — ${prog.current}/${prog.max} XP${comboText}${muteText}`;
+    const topSkills = skills.list("languages").slice(0, 3).map(s => `${s.label} Lv ${s.level}`);
+    status.tooltip = `Ridiculous Coding\nLevel ${xp.level}\n${prog.current}/${prog.max} XP` +
+      (combo.count > 1 ? `\nCombo x${combo.count} (${combo.multiplier.toFixed(1)}× XP)` : "") +
+      (prestige.count > 0 ? `\nPrestige ${prestige.count} (${prestige.tier.name}, ${prestige.multiplier.toFixed(1)}× XP)` : "") +
+      (topSkills.length ? `\nSkills: ${topSkills.join(", ")}` : "") +
+      (mixer.muted ? `\nSounds muted until ${new Date(mixer.mutedUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}` : "") +
+      (session ? `\n${session.phase === "focus" ? "Focus" : "Break"} ${session.round}/${session.rounds}: ${session.xp} XP, best combo x${session.bestCombo}` : "");
     status.show();
   }
+
+  function countdown(until: number): string {
+    const secs = Math.max(0, Math.ceil((until - Date.now()) / 1000));
+    return `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, "0")}`;
+  }
   updateStatus();
-  // One-time panel reveal to help unlock audio on first sound attempt
-  let revealedForSound = false;
+  // Skin packs: malformed packs fall back to the built-in skin and explain why
+  const output = vscode.window.createOutputChannel("Ridiculous Coding");
+  context.subscriptions.push(output);
+
+  async function applySkin() {
+    const id = vscode.workspace.getConfiguration("ridiculousCoding").get("skin", DEFAULT_SKIN_ID);
+    const { skin, errors } = await skins.resolve(id);
+    effects.setSkin(skin);
+    panelProvider.setSkin(skin);
+    editorSink.setSkin(skin);
+    if (errors.length) reportSkinErrors(id, errors);
+  }
+  void applySkin();
+  // A sprite that disappears after the skin was validated just stops animating
+  context.subscriptions.push(effects.onDidFailToLoadSprite(err => output.appendLine(`Sprite could not be read, animation disabled: ${err}`)));
+
+  function reportSkinErrors(id: string, errors: string[]) {
+    output.appendLine(`Skin "${id}" could not be loaded:`);
+    for (const err of errors) output.appendLine(`  - ${err}`);
+    void vscode.window
+      .showErrorMessage(`Ridiculous Coding: skin "${id}" is invalid (${errors[0]}). Using the default skin.`, "Show Details", "Choose Skin")
+      .then(choice => {
+        if (choice === "Show Details") output.show(true);
+        if (choice === "Choose Skin") void vscode.commands.executeCommand("ridiculousCoding.selectSkin");
+      });
+  }
+
+  // Opt-in Settings Sync of progress across machines
+  function applySync() {
+    const enabled = vscode.workspace.getConfiguration("ridiculousCoding").get("sync.enabled", false);
+    context.globalState.setKeysForSync(enabled ? PROGRESS_KEYS : []);
+  }
+  applySync();
 
   // Commands
   context.subscriptions.push(
     vscode.commands.registerCommand("ridiculousCoding.showPanel", () => panelProvider.reveal()),
+    vscode.commands.registerCommand("ridiculousCoding.openAudioPanel", () => editorSink.open(true)),
+    vscode.commands.registerCommand("ridiculousCoding.startSession", async () => {
+      if (sessions.active) {
+        const stop = await vscode.window.showInformationMessage("A focus session is already running.", "Stop Session");
+        if (stop) sessions.stop();
+        return;
+      }
+      sessions.start();
+    }),
+    vscode.commands.registerCommand("ridiculousCoding.stopSession", () => sessions.stop()),
     vscode.commands.registerCommand("ridiculousCoding.resetXp", () => {
       xp.reset();
+      xpRules.reset();
+      skills.reset();
+      pushSkills();
+      combo.break();
       pushState();
       updateStatus();
       if (settings.fireworks) {
-        post({ type: "fireworks", enabled: settings.sound });
+        audio.post({ type: "fireworks", enabled: soundEnabled() });
       }
     }),
+    vscode.commands.registerCommand("ridiculousCoding.selectSkin", async () => {
+      const current = vscode.workspace.getConfiguration("ridiculousCoding").get("skin", DEFAULT_SKIN_ID);
+      const packs = await skins.discover();
+      type SkinItem = vscode.QuickPickItem & { id?: string; errors?: string[]; openFolder?: boolean };
+      const items: SkinItem[] = [
+        { label: "Default", description: current === DEFAULT_SKIN_ID ? "current" : "built-in", id: DEFAULT_SKIN_ID },
+        ...packs.map(p => ({
+          label: p.errors.length ? `$(error) ${p.name}` : p.name,
+          description: p.id === current ? "current" : p.dir.fsPath,
+          detail: p.errors.length ? `Invalid: ${p.errors[0]}` : undefined,
+          id: p.id,
+          errors: p.errors
+        })),
+        { label: "$(folder-opened) Open Skins Folder", description: `add packs with a ${SKIN_MANIFEST}`, openFolder: true }
+      ];
+      const picked = await vscode.window.showQuickPick(items, { placeHolder: "Select an effect skin" });
+      if (!picked) return;
+      if (picked.openFolder) {
+        const dir = skins.searchRoots[0];
+        await vscode.workspace.fs.createDirectory(dir);
+        await vscode.commands.executeCommand("revealFileInOS", dir);
+        return;
+      }
+      if (picked.errors?.length) {
+        reportSkinErrors(picked.id!, picked.errors);
+        return;
+      }
+      await vscode.workspace.getConfiguration("ridiculousCoding").update("skin", picked.id, true);
+    }),
+    vscode.commands.registerCommand("ridiculousCoding.prestige", async () => {
+      if (!prestige.canPrestige(xp.level)) {
+        void vscode.window.showWarningMessage(`Reach level ${prestige.minLevel} to prestige (you are level ${xp.level}).`);
+        return;
+      }
+      const confirm = await vscode.window.showWarningMessage(
+        `Prestige now? Your level resets to 1 and you keep a permanent XP bonus.`,
+        { modal: true },
+        "Prestige"
+      );
+      if (confirm !== "Prestige") return;
+      prestige.prestige(xp.level, xp.xp);
+      xp.reset();
+      combo.break();
+      pushState();
+      pushPrestige();
+      updateStatus();
+      if (settings.fireworks && !settings.reducedEffects) {
+        audio.post({ type: "fireworks", enabled: soundEnabled() });
+      }
+      void vscode.window.showInformationMessage(
+        `${prestige.tier.badge} Prestige ${prestige.count} — ${prestige.tier.name}! All XP now ×${prestige.multiplier.toFixed(1)}.`
+      );
+    }),
+    vscode.commands.registerCommand("ridiculousCoding.exportProgress", async () => {
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file("ridiculous-coding-progress.json"),
+        filters: { JSON: ["json"] }
+      });
+      if (!target) return;
+      await writer.flush();
+      const doc = exportProgress(context.globalState);
+      await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(doc, null, 2), "utf8"));
+      void vscode.window.showInformationMessage(`Ridiculous Coding progress exported to ${target.fsPath}`);
+    }),
+    vscode.commands.registerCommand("ridiculousCoding.importProgress", async () => {
+      const picked = await vscode.window.showOpenDialog({ canSelectMany: false, filters: { JSON: ["json"] } });
+      if (!picked?.length) return;
+      let doc: unknown;
+      try {
+        doc = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(picked[0])).toString("utf8"));
+      } catch (err) {
+        void vscode.window.showErrorMessage(`Could not read progress file: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      const errors = validateProgress(doc);
+      if (errors.length) {
+        void vscode.window.showErrorMessage(`Invalid progress file: ${errors.slice(0, 3).join(" ")}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ""}`);
+        return;
+      }
+      const mode = await vscode.window.showQuickPick(
+        [
+          { label: "Merge", description: "Keep the best of both", mode: "merge" as ImportMode },
+          { label: "Replace", description: "Overwrite current progress", mode: "replace" as ImportMode }
+        ],
+        { placeHolder: "How should the imported progress be applied?" }
+      );
+      if (!mode) return;
+      await writer.flush();
+      await importProgress(context.globalState, doc as ProgressDocument, mode.mode);
+      xp.reload();
+      stats.reload();
+      skills.reload();
+      achievements.reload();
+      prestige.reload();
+      pushState();
+      pushPrestige();
+      pushStats();
+      post({ type: "achievements", items: achievements.all });
+      updateStatus();
+      void vscode.window.showInformationMessage(`Ridiculous Coding progress imported (${mode.label.toLowerCase()}).`);
+    }),
+    vscode.commands.registerCommand("ridiculousCoding.muteFor", async (minutes?: number) => {
+      if (typeof minutes !== "number") {
+        const pick = await vscode.window.showQuickPick(
+          [
+            ...[5, 15, 30, 60].map(m => ({ label: `${m} minutes`, minutes: m })),
+            { label: "Custom…", minutes: -1 }
+          ],
+          { placeHolder: "Mute Ridiculous Coding sounds for…" }
+        );
+        if (!pick) return;
+        minutes = pick.minutes;
+        if (minutes < 0) {
+          const input = await vscode.window.showInputBox({
+            prompt: "Minutes to mute",
+            validateInput: v => (/^\d+(\.\d+)?$/.test(v.trim()) && Number(v) > 0 ? undefined : "Enter a positive number")
+          });
+          if (!input) return;
+          minutes = Number(input);
+        }
+      }
+      mixer.muteFor(minutes);
+      void vscode.window.showInformationMessage(`Ridiculous Coding sounds muted for ${minutes} minute${minutes === 1 ? "" : "s"}.`);
+    }),
+    vscode.commands.registerCommand("ridiculousCoding.unmute", () => mixer.unmute()),
+    vscode.commands.registerCommand("ridiculousCoding.previewShake", async (kind?: EffectKind) => {
+      const editor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+      if (!editor) {
+        void vscode.window.showInformationMessage("Ridiculous Coding: open an editor to preview shake.");
+        return;
+      }
+      if (settings.reducedEffects) {
+        void vscode.window.showInformationMessage("Ridiculous Coding: shake is off while Reduced Effects is enabled.");
+        return;
+      }
+      kind ??= (await vscode.window.showQuickPick(["blip", "boom", "newline"], { placeHolder: "Preview which effect's shake?" })) as EffectKind | undefined;
+      if (kind) effects.previewShake(editor, kind);
+    }),
+    vscode.commands.registerCommand("ridiculousCoding.measureFrameTime", async () => {
+      const report = await effects.measureFrameTimes();
+      const ms = (v: number) => `${v.toFixed(3)} ms`;
+      const row = (name: string, before: FrameTimeStats, after: FrameTimeStats) =>
+        `  ${name.padEnd(8)} uncached avg ${ms(before.avgMs)} / p95 ${ms(before.p95Ms)}  →  cached avg ${ms(after.avgMs)} / p95 ${ms(after.p95Ms)}` +
+        `  (${(before.avgMs / Math.max(after.avgMs, 0.0001)).toFixed(0)}× faster)`;
+      output.appendLine(`Effect frame timing (${new Date().toLocaleString()})`);
+      for (const k of report.kinds) {
+        output.appendLine(row(k.kind, k.uncached, k.cached) + `, ${k.frames} frames, ${k.sliced ? "sliced" : "whole sheet"}`);
+      }
+      output.appendLine(row("labels", report.labels.uncached, report.labels.cached));
+      output.appendLine(`  live ticks: ${report.live.samples} samples, avg ${ms(report.live.avgMs)}, p95 ${ms(report.live.p95Ms)}, max ${ms(report.live.maxMs)}`);
+      output.appendLine(`  cache: ${report.cache.frames} frames, ${report.cache.labels} labels, ${report.cache.hits} hits / ${report.cache.misses} misses`);
+      output.show(true);
+    }),
     vscode.commands.registerCommand("ridiculousCoding.toggleExplosions", () => toggle("explosions")),
     vscode.commands.registerCommand("ridiculousCoding.toggleBlips", () => toggle("blips")),
     vscode.commands.registerCommand("ridiculousCoding.toggleChars", () => toggle("chars")),
     vscode.commands.registerCommand("ridiculousCoding.toggleShake", () => toggle("shake")),
     vscode.commands.registerCommand("ridiculousCoding.toggleSound", () => toggle("sound")),
     vscode.commands.registerCommand("ridiculousCoding.toggleFireworks", () => toggle("fireworks")),
-    vscode.commands.registerCommand("ridiculousCoding.toggleReducedEffects", () => toggle("reducedEffects"))
+    vscode.commands.registerCommand("ridiculousCoding.toggleReducedEffects", () => toggle("reducedEffects")),
+    vscode.commands.registerCommand("ridiculousCoding.toggleCombo", () => toggle("combo"))
   );
 
   function toggle<K extends keyof Settings>(key: K) {
@@ -76,7 +382,8 @@ export function activate(context: vscode.ExtensionContext) {
       fireworks: "fireworks",
       baseXp: "leveling.baseXp",
       enableStatusBar: "enableStatusBar",
-      reducedEffects: "reducedEffects"
+      reducedEffects: "reducedEffects",
+      combo: "combo.enabled"
     };
     const configKey = map[key];
     if (!configKey) return;
@@ -98,11 +405,18 @@ export function activate(context: vscode.ExtensionContext) {
         shake: cfg.get("shake", true),
         shakeAmplitude: cfg.get("shakeAmplitude", 6),
         shakeDecayMs: cfg.get("shakeDecayMs", 120),
+        shakeProfiles: {
+          blip: cfg.get("shakeProfile.blip", "decay"),
+          boom: cfg.get("shakeProfile.boom", "decay"),
+          newline: cfg.get("shakeProfile.newline", "impact")
+        },
+        shakeIntensity: cfg.get("shakeIntensity", "fixed"),
         sound: cfg.get("sound", true),
         fireworks: cfg.get("fireworks", true),
         baseXp: cfg.get("leveling.baseXp", 50),
         enableStatusBar: cfg.get("enableStatusBar", true),
-        reducedEffects: cfg.get("reducedEffects", false)
+        reducedEffects: cfg.get("reducedEffects", false),
+        combo: cfg.get("combo.enabled", true)
       };
       
       // If reduced effects was just enabled, clear all decorations
@@ -112,7 +426,22 @@ export function activate(context: vscode.ExtensionContext) {
         });
       }
       
-      xp.setBaseXp(settings.baseXp);
+      if (!settings.combo) combo.break();
+      if (e.affectsConfiguration("ridiculousCoding.sync.enabled")) applySync();
+      if (e.affectsConfiguration("ridiculousCoding.quests.custom")) {
+        quests.reloadDefinitions();
+        reportQuestErrors();
+        post({ type: "quests", items: quests.view });
+      }
+      if (e.affectsConfiguration("ridiculousCoding.audio.fallbackPanel")) {
+        audio.fallbackEnabled = vscode.workspace.getConfiguration("ridiculousCoding").get("audio.fallbackPanel", true);
+      }
+      if (e.affectsConfiguration("ridiculousCoding.volume") || e.affectsConfiguration("ridiculousCoding.soundStyle")) mixer.refresh();
+      if (e.affectsConfiguration("ridiculousCoding.skin") || e.affectsConfiguration("ridiculousCoding.skinsPath")) void applySkin();
+      const curve = curveFromConfig();
+      xp.setCurve(curve);
+      skills.setCurve(curve);
+      pushSkills();
       pushState();
       updateStatus();
       // Update panel state (init is sent by PanelViewProvider and includes sound URIs)
@@ -126,10 +455,149 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
-  // Pitch increase that resets shortly after typing stops
-  let pitchIncrease = 0;
-  let pitchResetTimer: NodeJS.Timeout | undefined;
-  const PITCH_RESET_MS = 180; // reset a short time after typing stops
+  // Combo counter in the editor, status bar and panel
+  context.subscriptions.push(
+    combo.onDidChange(state => {
+      const editor = vscode.window.activeTextEditor;
+      if (state.count < 2) {
+        effects.hideCombo();
+      } else if (editor && !settings.reducedEffects) {
+        effects.showCombo(editor, state.count, state.milestone, shakeEnabled());
+      }
+      post({ type: "combo", count: state.count, multiplier: state.multiplier, milestone: state.milestone });
+      sessions.record({ combo: state.count });
+      quests.record({ combo: state.count, languageId: vscode.window.activeTextEditor?.document.languageId });
+      if (state.milestone && settings.fireworks && !settings.reducedEffects) {
+        audio.post({ type: "fireworks", enabled: soundEnabled() });
+      }
+      achievements.observe({ combo: state.count });
+      updateStatus();
+    })
+  );
+
+  // Achievements: toast, fireworks and a refreshed gallery in the panel
+  context.subscriptions.push(
+    achievements.onDidUnlock(a => {
+      bus.emit("achievement", { id: a.id, title: a.title, description: a.description, icon: a.icon });
+    }),
+    bus.on("achievement", a => {
+      void vscode.window.showInformationMessage(`🏆 Achievement unlocked: ${a.title} — ${a.description}`);
+      if (settings.fireworks && !settings.reducedEffects) {
+        audio.post({ type: "fireworks", enabled: soundEnabled() });
+      }
+      post({ type: "achievements", items: achievements.all });
+    }),
+    panelProvider.onDidBecomeReady(() => {
+      // The init message reads globalState, which can lag behind batched XP writes
+      pushState();
+      post({ type: "achievements", items: achievements.all });
+      post({ type: "milestones", items: milestones.recent });
+      post({ type: "quests", items: quests.view });
+      pushSession();
+      pushStats();
+      pushPrestige();
+    }),
+    mixer.onDidChange(view => {
+      audio.post({ type: "mixer", ...view });
+      updateStatus();
+    })
+  );
+
+  // Quests: bonus XP and fireworks on completion
+  context.subscriptions.push(
+    quests.onDidComplete(q => {
+      void vscode.window.showInformationMessage(`📜 Quest complete: ${q.title} — +${q.xp} XP`);
+      if (q.xp > 0) awardXp(q.xp, "quest");
+      if (settings.fireworks && !settings.reducedEffects) audio.post({ type: "fireworks", enabled: soundEnabled() });
+      post({ type: "quests", items: quests.view });
+    })
+  );
+  reportQuestErrors();
+
+  function reportQuestErrors() {
+    if (!quests.errors.length) return;
+    output.appendLine("Some custom quests were skipped:");
+    for (const err of quests.errors) output.appendLine(`  - ${err}`);
+    void vscode.window
+      .showWarningMessage(`Ridiculous Coding: ${quests.errors.length} custom quest(s) are invalid (${quests.errors[0]}).`, "Show Details")
+      .then(choice => choice && output.show(true));
+  }
+
+  // Focus sessions: countdown in the status bar, dimmed effects on breaks, a summary at the end
+  context.subscriptions.push(
+    sessions.onDidTick(() => updateStatus()),
+    sessions.onDidChange(active => {
+      if (active?.phase === "break") {
+        void vscode.window.showInformationMessage(`☕ Break time — effects are dimmed for ${vscode.workspace.getConfiguration("ridiculousCoding").get("session.breakMinutes", 5)} minutes.`);
+      }
+      pushSession();
+      updateStatus();
+    }),
+    sessions.onDidEnd(record => {
+      pushSession(record);
+      if (!record.completed) return;
+      if (settings.fireworks && !settings.reducedEffects) audio.post({ type: "fireworks", enabled: soundEnabled() });
+      void vscode.window.showInformationMessage(
+        `🎉 Focus session complete: ${record.xp} XP, ${record.chars} chars, best combo x${record.bestCombo}.`,
+        "Show Panel"
+      ).then(choice => choice && panelProvider.reveal());
+    })
+  );
+
+  // Workspace milestones: finished tasks, test tasks, debug sessions and saves
+  context.subscriptions.push(
+    milestones.onDidComplete(result => {
+      const enabled = vscode.workspace.getConfiguration("ridiculousCoding").get("milestones.enabled", true);
+      if (result.kind === "save") {
+        achievements.record({ saves: 1 });
+        if (quests.record({ saves: 1, languageId: result.document?.languageId })) scheduleStatsPush();
+      }
+      // Saves earned XP before milestones existed, so they keep earning it with milestones off
+      if (!enabled && result.kind !== "save") return;
+      const earned = result.success ? xpRules.award(result.kind) + (result.recovered ? xpRules.award("recovery") : 0) : 0;
+      const gained = earned > 0 ? awardXp(earned, result.kind, 1, result.document) : 0;
+      // Only saves reaching a session milestone make a feed entry and a chirp
+      if (!enabled || (result.kind === "save" && !result.milestone)) return;
+      milestones.remember(result, gained);
+      bus.emit("milestone", milestones.recent[0]);
+    }),
+    bus.on("milestone", m => {
+      post({ type: "milestones", items: milestones.recent });
+      if (settings.reducedEffects) return;
+      // Passing again after a failure gets the level-up treatment
+      if (m.recovered) {
+        if (settings.fireworks) audio.post({ type: "fireworks", enabled: soundEnabled() });
+        audio.post({ type: "blip", pitch: 1, enabled: soundEnabled(), ...music.levelUp() });
+        void vscode.window.showInformationMessage(`🟢 ${m.name} is green again! +${m.xp} XP`);
+      } else if (m.kind === "save") {
+        audio.post({ type: "blip", pitch: 1.5, enabled: soundEnabled() });
+      } else if (m.success && m.kind !== "debug") {
+        if (settings.fireworks) audio.post({ type: "fireworks", enabled: soundEnabled() });
+      } else if (!m.success && vscode.workspace.getConfiguration("ridiculousCoding").get("milestones.failEffect", true)) {
+        audio.post({ type: "boom", enabled: soundEnabled(), ...music.fail() });
+      }
+    })
+  );
+
+  // Fixed errors blow up where they used to be; new ones can get a quiet "uh-oh"
+  context.subscriptions.push(
+    diagnostics.onDidChange(({ editor, fixed, rewarded, added }) => {
+      const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+      if (!cfg.get("diagnostics.enabled", true)) return;
+      if (fixed.length) {
+        const earned = rewarded.length ? xpRules.award("fix", rewarded.length) : 0;
+        if (earned > 0) awardXp(earned, "fix", 1, editor.document);
+        if (!settings.reducedEffects && settings.explosions) {
+          effects.showBoomAt(editor, fixed.map(d => d.range), shakeEnabled());
+          audio.post({ type: "boom", enabled: soundEnabled() });
+        }
+      }
+      if (added.length && cfg.get("diagnostics.uhOh", false) && !settings.reducedEffects) {
+        effects.showUhOh(editor, added.map(d => d.range));
+        audio.post({ type: "blip", pitch: 1, enabled: soundEnabled(), ...music.fail() });
+      }
+    })
+  );
 
   // Event handling: typing, deleting, newline
   let lastLineByEditor = new WeakMap<vscode.TextEditor, number>();
@@ -139,72 +607,132 @@ export function activate(context: vscode.ExtensionContext) {
       const editor = vscode.window.activeTextEditor;
       if (!editor || evt.document !== editor.document) return;
 
-      const change = evt.contentChanges[0];
-      if (!change) return;
+      const changes = evt.contentChanges;
+      if (!changes.length) return;
 
-      // Classify
-      const insertedText = change.text ?? "";
-      const removedChars = change.rangeLength ?? 0;
+      // Classify; with multi-cursor editing there is one change per cursor
+      const insertedText = changes.find(c => c.text.length > 0)?.text ?? "";
       const isInsert = insertedText.length > 0;
-      const isDelete = !isInsert && removedChars > 0;
+      const isDelete = !isInsert && changes.some(c => c.rangeLength > 0);
+
+      // Paste, undo, formatter and similar edits only count if settings allow it
+      const editKind = classifier.classify(evt, editor.selections.length);
+      const withEffects = classifier.triggersEffects(editKind);
 
       const caret = editor.selection.active;
-      // Character label from inserted text (first char) or delete symbol
-      const charLabel =
-        isInsert && settings.chars
-          ? sanitizeLabel(insertedText[0] ?? "")
-          : isDelete && settings.chars
-          ? "BACKSPACE"
-          : undefined;
-
-      if (isInsert && settings.blips && !settings.reducedEffects) {
-        if (settings.sound && !revealedForSound) {
-          revealedForSound = true;
-          panelProvider.reveal();
-        }
-        effects.showBlip(editor, settings.chars, settings.shake, charLabel);
-        pitchIncrease += 1.0;
-        if (pitchResetTimer) clearTimeout(pitchResetTimer);
-        pitchResetTimer = setTimeout(() => { pitchIncrease = 0; }, PITCH_RESET_MS);
-        // Sound via panel (disabled in reduced effects mode)
-        const pitch = 1.0 + Math.min(20, pitchIncrease) * 0.05; // cap growth
-        post({ type: "blip", pitch, enabled: settings.sound && !settings.reducedEffects });
-        // XP (always gained, even in reduced effects)
-        const leveled = xp.addXp(1);
-        if (leveled && settings.fireworks && !settings.reducedEffects) post({ type: "fireworks", enabled: settings.sound && !settings.reducedEffects });
-        pushState();
-        updateStatus();
-      } else if (isInsert) {
-        // Still gain XP even in reduced effects mode
-        const leveled = xp.addXp(1);
-        pushState();
-        updateStatus();
-      } else if (isDelete && settings.explosions && !settings.reducedEffects) {
-        effects.showBoom(editor, settings.chars, settings.shake, charLabel);
-        post({ type: "boom", enabled: settings.sound && !settings.reducedEffects });
-        pushState();
-      }
-
-      // Newline detection within this change (also disabled in reduced effects)
-      if (settings.blips && insertedText.includes("\n") && !settings.reducedEffects) {
-        effects.showNewline(editor, settings.shake);
+      const streak = isInsert && editKind === "typing" ? combo.hit() : undefined;
+      if (isInsert) {
+        bus.emit("keystroke", {
+          editor,
+          document: evt.document,
+          position: caret,
+          text: insertedText,
+          editKind,
+          chars: changes.reduce((n, c) => n + c.text.length, 0),
+          combo: streak?.count ?? 0,
+          effects: withEffects
+        });
+      } else if (isDelete) {
+        bus.emit("boom", {
+          editor,
+          document: evt.document,
+          position: caret,
+          editKind,
+          chars: changes.reduce((n, c) => n + c.rangeLength, 0),
+          combo: combo.count,
+          effects: withEffects
+        });
+      }
+
+      // XP from the rules table over all changes (always gained, even in reduced effects)
+      const counts = classifier.earnsXp(editKind) ? countChanges(evt.document, changes) : undefined;
+      const earned = counts ? xpRules.awardAll(counts) : 0;
+      if (earned > 0) awardXp(earned, editKind, streak?.multiplier ?? 1, evt.document);
+      if (counts) {
+        const linesDeleted = changes
+          .filter(c => !c.text.length)
+          .reduce((n, c) => n + (c.range.end.line - c.range.start.line), 0);
+        achievements.record({ chars: counts.char, newlines: counts.newline, deletes: counts.delete, linesDeleted });
+        stats.record({ chars: counts.char, newlines: counts.newline, deletes: counts.delete });
+        sessions.record({ chars: counts.char, deletes: counts.delete });
+        quests.record({ chars: counts.char, newlines: counts.newline, deletes: counts.delete, linesDeleted, languageId: evt.document.languageId });
+        skills.record(evt.document, { chars: counts.char, newlines: counts.newline, deletes: counts.delete });
+        scheduleStatsPush();
       }
 
       // Track line change between events for additional newline cues
       lastLineByEditor.set(editor, caret.line);
     }),
 
+    vscode.workspace.onDidCreateFiles(e => {
+      const earned = xpRules.award("create", e.files.length);
+      if (earned > 0) awardXp(earned, "create");
+    }),
+
     vscode.window.onDidChangeTextEditorSelection(e => {
       const editor = e.textEditor;
       const last = lastLineByEditor.get(editor);
       const now = editor.selection.active.line;
       if (last !== undefined && now !== last && settings.blips && !settings.reducedEffects) {
-        effects.showNewline(editor, settings.shake);
+        effects.showNewline(editor, shakeEnabled());
       }
       lastLineByEditor.set(editor, now);
     })
   );
 
+  // Blips, newline cues and booms with their sounds (all disabled in reduced effects mode)
+  context.subscriptions.push(
+    bus.on("keystroke", e => {
+      if (!e.effects || !settings.blips || settings.reducedEffects) return;
+      const newline = e.text.includes("\n");
+      effects.showBlip(e.editor, settings.chars, shakeEnabled(), settings.chars ? sanitizeLabel(e.text[0] ?? "") : undefined);
+      const pitch = 1.0 + Math.min(20, e.combo) * 0.05; // cap growth
+      // In musical mode the newline chord replaces the keystroke note
+      if (!music.enabled) audio.post({ type: "blip", pitch, enabled: soundEnabled() });
+      else if (!newline) audio.post({ type: "blip", pitch, enabled: soundEnabled(), ...music.keystroke(e.text[0] ?? "") });
+      if (newline) {
+        effects.showNewline(e.editor, shakeEnabled());
+        if (music.enabled) audio.post({ type: "blip", pitch: 1, enabled: soundEnabled(), ...music.newline() });
+      }
+    }),
+    bus.on("boom", e => {
+      if (!e.effects || !settings.explosions || settings.reducedEffects) return;
+      effects.showBoom(e.editor, settings.chars, shakeEnabled(), settings.chars ? "BACKSPACE" : undefined);
+      audio.post({ type: "boom", enabled: soundEnabled(), ...(music.enabled ? music.delete() : {}) });
+      pushState();
+    }),
+    // Effects requested through the API
+    bus.on("effect", req => {
+      if (settings.reducedEffects) return;
+      if (req.kind === "fireworks") {
+        if (settings.fireworks) audio.post({ type: "fireworks", enabled: soundEnabled() });
+        return;
+      }
+      const editor = req.editor ?? vscode.window.activeTextEditor;
+      if (!editor) return;
+      if (req.kind === "blip") {
+        effects.showBlip(editor, false, shakeEnabled(), undefined, req.position);
+        audio.post({ type: "blip", pitch: 1, enabled: soundEnabled() });
+      } else {
+        effects.showBoom(editor, false, shakeEnabled(), undefined, req.position);
+        audio.post({ type: "boom", enabled: soundEnabled() });
+      }
+    }),
+    bus.on("xp", e => {
+      sessions.record({ xp: e.amount });
+      // Quest rewards don't count toward XP quests
+      if (e.reason !== "quest") quests.record({ xp: e.amount });
+      pushState();
+      updateStatus();
+    }),
+    bus.on("levelUp", e => {
+      if (settings.fireworks && !settings.reducedEffects) audio.post({ type: "fireworks", enabled: soundEnabled() });
+      if (music.enabled) audio.post({ type: "blip", pitch: 1, enabled: soundEnabled(), ...music.levelUp() });
+      achievements.observe({ level: e.level });
+      pushPrestige();
+    })
+  );
+
   function sanitizeLabel(ch: string): string {
     if (ch === "\n") return "";
     if (ch === "\t") return "↹";
@@ -212,17 +740,102 @@ export function activate(context: vscode.ExtensionContext) {
     return ch;
   }
 
+  // Returns the XP actually gained after multipliers
+  function awardXp(amount: number, reason: string, multiplier = 1, document?: vscode.TextDocument): number {
+    const before = xp.xp;
+    const previousLevel = xp.level;
+    const leveled = xp.addXp(amount, multiplier * prestige.multiplier);
+    if (xp.xp > before) {
+      stats.record({ xp: xp.xp - before });
+      if (document) skills.record(document, { xp: xp.xp - before });
+      scheduleStatsPush();
+    }
+    bus.emit("xp", { amount: xp.xp - before, reason, xp: xp.xp, level: xp.level });
+    if (leveled) bus.emit("levelUp", { level: xp.level, previousLevel });
+    return xp.xp - before;
+  }
+
+  // History changes on every keystroke; the panel only needs it every few seconds
+  const STATS_PUSH_MS = 2000;
+  let statsPushTimer: NodeJS.Timeout | undefined;
+  function scheduleStatsPush() {
+    if (statsPushTimer) return;
+    statsPushTimer = setTimeout(() => {
+      statsPushTimer = undefined;
+      pushStats();
+    }, STATS_PUSH_MS);
+  }
+
+  function pushStats() {
+    post({ type: "stats", days: stats.recent(365) });
+    pushSkills();
+    // Keeps quest progress and the running session's totals fresh without a message per keystroke
+    post({ type: "quests", items: quests.view });
+    if (sessions.active) pushSession();
+  }
+
+  function pushSession(summary?: SessionRecord) {
+    post({ type: "session", active: sessions.active, recent: sessions.recent, summary });
+  }
+
+  function pushPrestige() {
+    post({
+      type: "prestige",
+      count: prestige.count,
+      multiplier: prestige.multiplier,
+      tier: prestige.tier,
+      canPrestige: prestige.canPrestige(xp.level),
+      minLevel: prestige.minLevel
+    });
+  }
+
+  function pushSkills() {
+    post({ type: "skills", languages: skills.list("languages"), workspaces: skills.list("workspaces") });
+  }
+
   function post(msg: PanelMessageFromExt) {
     panelProvider.post(msg);
   }
 
+  // Sounds play unless turned off, in reduced effects mode, temporarily muted or on a session break
+  function soundEnabled(): boolean {
+    return settings.sound && !settings.reducedEffects && !mixer.muted && !sessions.onBreak;
+  }
+
+  // Breaks in a focus session dim effects: no shake and no sound
+  function shakeEnabled(): boolean {
+    return settings.shake && !sessions.onBreak;
+  }
+
   function pushState() {
     post({ type: "state", xp: xp.xp, level: xp.level, xpNext: xp.xpNextAbs, xpLevelStart: xp.xpStartOfLevel });
   }
 
   // Initial state is sent by PanelViewProvider when webview is ready
+
+  return {
+    version: 1,
+    onKeystroke: bus.map("keystroke", toApiEdit),
+    onBoom: bus.map("boom", toApiEdit),
+    onXp: bus.event("xp"),
+    onLevelUp: bus.event("levelUp"),
+    onAchievement: bus.event("achievement"),
+    onMilestone: bus.event("milestone"),
+    // Non-positive or non-finite amounts are ignored
+    awardXp(amount, reason) {
+      if (!Number.isFinite(amount) || amount <= 0) return;
+      awardXp(amount, reason || "api");
+    },
+    triggerEffect(kind, editor, position) {
+      bus.emit("effect", { kind, editor, position });
+    },
+    getProgress() {
+      const prog = xp.progress;
+      return { level: xp.level, xp: xp.xp, current: prog.current, max: prog.max, prestige: prestige.count };
+    }
+  };
 }
 
-export function deactivate() {
-  // no-op
+export function deactivate(): Promise<void> | undefined {
+  return stateWriter?.flush();
 }
\ No newline at end of file
@@ -0,0 +1,292 @@
+// Parser for Godot's text resource format (.tscn / .tres), Godot 3 (format=2) and Godot 4 (format=3)
+
+// Constructor-style values: Rect2(0, 0, 32, 32), SubResource("id"), ExtResource(1), Vector2(1, 1), ...
+export class GdConstructor {
+  constructor(readonly name: string, readonly args: GdValue[]) {}
+}
+
+export type GdDict = { [key: string]: GdValue };
+
+export type GdValue = null | boolean | number | string | GdValue[] | GdDict | GdConstructor;
+
+export type GdSection = {
+  tag: string; // gd_scene, gd_resource, ext_resource, sub_resource, node, resource, connection, ...
+  attrs: Record<string, GdValue>;
+  props: Record<string, GdValue>;
+  line: number;
+};
+
+export type GdResourceFile = {
+  header: GdSection;
+  format: number;
+  extResources: Map<string, GdSection>;
+  subResources: Map<string, GdSection>;
+  nodes: GdSection[];
+  // The [resource] section of a .tres file
+  resource?: GdSection;
+  connections: GdSection[];
+};
+
+export class GodotParseError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = "GodotParseError";
+  }
+}
+
+const IDENT_START = /[A-Za-z_]/;
+const IDENT_CHAR = /[A-Za-z0-9_]/;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/;
+
+class Scanner {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  get done(): boolean {
+    this.skipTrivia();
+    return this.pos >= this.text.length;
+  }
+
+  peek(): string {
+    return this.text[this.pos] ?? "";
+  }
+
+  fail(message: string): never {
+    const before = this.text.slice(0, this.pos);
+    const line = before.split("\n").length;
+    const column = this.pos - before.lastIndexOf("\n");
+    throw new GodotParseError(message, line, column);
+  }
+
+  get line(): number {
+    return this.text.slice(0, this.pos).split("\n").length;
+  }
+
+  // Whitespace, newlines and ';' comments
+  skipTrivia() {
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (ch === ";") {
+        while (this.pos < this.text.length && this.text[this.pos] !== "\n") this.pos++;
+      } else if (/\s/.test(ch)) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  expect(ch: string) {
+    this.skipTrivia();
+    if (this.text[this.pos] !== ch) this.fail(`Expected '${ch}' but found '${this.text[this.pos] ?? "end of file"}'`);
+    this.pos++;
+  }
+
+  tryConsume(ch: string): boolean {
+    this.skipTrivia();
+    if (this.text[this.pos] === ch) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  identifier(): string {
+    this.skipTrivia();
+    const start = this.pos;
+    if (!IDENT_START.test(this.peek())) this.fail("Expected an identifier");
+    while (this.pos < this.text.length && IDENT_CHAR.test(this.text[this.pos])) this.pos++;
+    return this.text.slice(start, this.pos);
+  }
+
+  // Property keys may contain '/', ':' and '.' (e.g. tracks/0/type, 0:0/0) or be quoted
+  propertyKey(): string {
+    this.skipTrivia();
+    if (this.peek() === '"') return this.string();
+    const start = this.pos;
+    while (this.pos < this.text.length && !/[\s=]/.test(this.text[this.pos])) this.pos++;
+    if (start === this.pos) this.fail("Expected a property name");
+    return this.text.slice(start, this.pos);
+  }
+
+  string(): string {
+    this.expect('"');
+    let out = "";
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos++];
+      if (ch === '"') return out;
+      if (ch !== "\\") {
+        out += ch;
+        continue;
+      }
+      const esc = this.text[this.pos++];
+      switch (esc) {
+        case "n": out += "\n"; break;
+        case "t": out += "\t"; break;
+        case "r": out += "\r"; break;
+        case "u": {
+          const hex = this.text.slice(this.pos, this.pos + 4);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) this.fail("Invalid \\u escape");
+          out += String.fromCharCode(parseInt(hex, 16));
+          this.pos += 4;
+          break;
+        }
+        default: out += esc ?? "";
+      }
+    }
+    return this.fail("Unterminated string");
+  }
+
+  value(): GdValue {
+    this.skipTrivia();
+    const ch = this.peek();
+    if (ch === '"') return this.string();
+    // StringName (&"name") and NodePath (^"path") are plain strings here
+    if (ch === "&" || ch === "^") {
+      this.pos++;
+      return ch === "^" ? new GdConstructor("NodePath", [this.string()]) : this.string();
+    }
+    if (ch === "[") return this.array();
+    if (ch === "{") return this.dict();
+    const num = NUMBER.exec(this.text.slice(this.pos, this.pos + 64));
+    if (num) {
+      this.pos += num[0].length;
+      return parseFloat(num[0]);
+    }
+    if (ch === "-" && this.text.startsWith("-inf", this.pos)) {
+      this.pos += 4;
+      return -Infinity;
+    }
+    if (IDENT_START.test(ch)) {
+      let name = this.identifier();
+      // Typed arrays and dictionaries: Array[int]([...]), Dictionary[String, int]({...})
+      if (this.peek() === "[") {
+        const start = this.pos;
+        while (this.pos < this.text.length && this.text[this.pos] !== "]") this.pos++;
+        this.pos++;
+        name += this.text.slice(start, this.pos);
+      }
+      if (this.tryConsume("(")) {
+        const args: GdValue[] = [];
+        if (!this.tryConsume(")")) {
+          do {
+            args.push(this.value());
+          } while (this.tryConsume(","));
+          this.expect(")");
+        }
+        return new GdConstructor(name, args);
+      }
+      switch (name) {
+        case "true": return true;
+        case "false": return false;
+        case "null": return null;
+        case "inf": return Infinity;
+        case "nan": return NaN;
+        default: return name;
+      }
+    }
+    return this.fail(`Unexpected '${ch || "end of file"}'`);
+  }
+
+  private array(): GdValue[] {
+    this.expect("[");
+    const out: GdValue[] = [];
+    if (this.tryConsume("]")) return out;
+    do {
+      if (this.peekAfterTrivia() === "]") break; // trailing comma
+      out.push(this.value());
+    } while (this.tryConsume(","));
+    this.expect("]");
+    return out;
+  }
+
+  private dict(): GdDict {
+    this.expect("{");
+    const out: GdDict = {};
+    if (this.tryConsume("}")) return out;
+    do {
+      if (this.peekAfterTrivia() === "}") break; // trailing comma
+      const key = this.value();
+      this.expect(":");
+      out[typeof key === "string" ? key : String(key)] = this.value();
+    } while (this.tryConsume(","));
+    this.expect("}");
+    return out;
+  }
+
+  private peekAfterTrivia(): string {
+    this.skipTrivia();
+    return this.peek();
+  }
+}
+
+function parseSection(scanner: Scanner): GdSection {
+  const line = scanner.line;
+  scanner.expect("[");
+  const tag = scanner.identifier();
+  const attrs: Record<string, GdValue> = {};
+  while (!scanner.tryConsume("]")) {
+    const key = scanner.identifier();
+    scanner.expect("=");
+    attrs[key] = scanner.value();
+  }
+  return { tag, attrs, props: {}, line };
+}
+
+// Resource ids are strings in Godot 4 ("1_abcd") and integers in Godot 3 (1)
+export function resourceId(v: GdValue | undefined): string | undefined {
+  if (typeof v === "string") return v;
+  if (typeof v === "number") return String(v);
+  return undefined;
+}
+
+export function parseGodotResource(text: string): GdResourceFile {
+  const scanner = new Scanner(text.replace(/^\uFEFF/, ""));
+  const sections: GdSection[] = [];
+  while (!scanner.done) {
+    if (scanner.peek() === "[") {
+      sections.push(parseSection(scanner));
+      continue;
+    }
+    const current = sections[sections.length - 1];
+    if (!current) scanner.fail("Expected a [gd_scene] or [gd_resource] header");
+    const key = scanner.propertyKey();
+    scanner.expect("=");
+    current.props[key] = scanner.value();
+  }
+
+  const header = sections[0];
+  if (!header || (header.tag !== "gd_scene" && header.tag !== "gd_resource")) {
+    throw new GodotParseError("File must start with [gd_scene] or [gd_resource]", 1, 1);
+  }
+  const file: GdResourceFile = {
+    header,
+    format: typeof header.attrs.format === "number" ? header.attrs.format : 2,
+    extResources: new Map(),
+    subResources: new Map(),
+    nodes: [],
+    connections: []
+  };
+  for (const section of sections.slice(1)) {
+    const id = resourceId(section.attrs.id);
+    switch (section.tag) {
+      case "ext_resource":
+        if (id !== undefined) file.extResources.set(id, section);
+        break;
+      case "sub_resource":
+        if (id !== undefined) file.subResources.set(id, section);
+        break;
+      case "node":
+        file.nodes.push(section);
+        break;
+      case "resource":
+        file.resource = section;
+        break;
+      case "connection":
+        file.connections.push(section);
+        break;
+    }
+  }
+  return file;
+}
@@ -0,0 +1,75 @@
+import { FrameRect, SpriteAnimation, SpriteFrame } from "../sprites/SpriteAnimation";
+import { GdConstructor, GdDict, GdResourceFile, GdSection, GdValue, resourceId } from "./GodotResource";
+
+const isDict = (v: GdValue | undefined): v is GdDict =>
+  typeof v === "object" && v !== null && !Array.isArray(v) && !(v instanceof GdConstructor);
+
+const num = (v: GdValue | undefined, fallback: number) => (typeof v === "number" && Number.isFinite(v) ? v : fallback);
+
+function call(v: GdValue | undefined, name: string): GdConstructor | undefined {
+  return v instanceof GdConstructor && v.name === name ? v : undefined;
+}
+
+// Resolve a texture reference to its source texture path and atlas region
+function resolveTexture(file: GdResourceFile, ref: GdValue | undefined, depth = 0): { texture?: string; region?: FrameRect } | undefined {
+  if (depth > 8) return undefined; // guard against atlas cycles
+  const ext = call(ref, "ExtResource");
+  if (ext) {
+    const res = file.extResources.get(resourceId(ext.args[0]) ?? "");
+    return res ? { texture: typeof res.attrs.path === "string" ? res.attrs.path : undefined } : undefined;
+  }
+  const sub = call(ref, "SubResource");
+  if (!sub) return undefined;
+  const res = file.subResources.get(resourceId(sub.args[0]) ?? "");
+  if (!res) return undefined;
+  if (res.attrs.type !== "AtlasTexture") return { texture: undefined };
+  const atlas = resolveTexture(file, res.props.atlas, depth + 1);
+  const rect = call(res.props.region, "Rect2");
+  const [x, y, w, h] = (rect?.args ?? []).map(a => num(a, 0));
+  const region = rect && rect.args.length >= 4 ? { x, y, w, h } : undefined;
+  // Nested atlases offset into their parent region
+  if (region && atlas?.region) {
+    region.x += atlas.region.x;
+    region.y += atlas.region.y;
+  }
+  return { texture: atlas?.texture, region: region ?? atlas?.region };
+}
+
+function readAnimation(file: GdResourceFile, raw: GdValue, index: number): SpriteAnimation | undefined {
+  if (!isDict(raw)) return undefined;
+  const frames: SpriteFrame[] = [];
+  for (const entry of Array.isArray(raw.frames) ? raw.frames : []) {
+    // Godot 4: { "duration": 1.0, "texture": SubResource("id") }; Godot 3: SubResource( 1 )
+    const ref = isDict(entry) ? entry.texture : entry;
+    const duration = isDict(entry) ? Math.max(0, num(entry.duration, 1)) : 1;
+    const tex = resolveTexture(file, ref);
+    if (tex) frames.push({ ...tex, duration });
+  }
+  return {
+    name: typeof raw.name === "string" ? raw.name : `animation_${index}`,
+    speed: Math.max(0.001, num(raw.speed, 5)),
+    loop: typeof raw.loop === "boolean" ? raw.loop : true,
+    frames
+  };
+}
+
+// The SpriteFrames resource a file describes: the [resource] of a .tres, the one an
+// AnimatedSprite node uses, or else the first SpriteFrames sub-resource
+function findSpriteFrames(file: GdResourceFile): GdSection | undefined {
+  if (file.resource && file.header.attrs.type === "SpriteFrames") return file.resource;
+  for (const node of file.nodes) {
+    const ref = call(node.props.frames ?? node.props.sprite_frames, "SubResource");
+    const res = ref && file.subResources.get(resourceId(ref.args[0]) ?? "");
+    if (res?.attrs.type === "SpriteFrames") return res;
+  }
+  return [...file.subResources.values()].find(s => s.attrs.type === "SpriteFrames");
+}
+
+export function readSpriteAnimations(file: GdResourceFile): SpriteAnimation[] {
+  const frames = findSpriteFrames(file);
+  const list = frames?.props.animations;
+  if (!Array.isArray(list)) return [];
+  return list
+    .map((raw, i) => readAnimation(file, raw, i))
+    .filter((a): a is SpriteAnimation => !!a);
+}
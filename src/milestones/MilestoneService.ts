@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { MilestoneKind, MilestoneView } from "../types";
+
+// Recent results kept for the panel feed
+const MAX_RECENT = 20;
+// Session save counts that make a feed entry; past the last one, every further hundred does
+const SAVE_MILESTONES = [10, 25, 50, 100];
+
+function isSaveMilestone(count: number): boolean {
+  return SAVE_MILESTONES.includes(count) || (count > 100 && count % 100 === 0);
+}
+
+export type MilestoneResult = {
+  kind: MilestoneKind;
+  name: string;
+  success: boolean;
+  // Passed after the previous run of the same task failed
+  recovered: boolean;
+  // The saved document, for per-language skill XP; not stored
+  document?: vscode.TextDocument;
+  // Saves this session, set when this save reached a save milestone
+  milestone?: number;
+};
+
+// Watches task processes, debug sessions and saves and reports each finished run. Test runs
+// are tasks in the Test group, since other extensions' test results are not observable. A debug
+// session's outcome isn't observable either, so every finished session counts as a success.
+// Every save is reported, but only saves reaching a session milestone are meant for the feed.
+export class MilestoneService implements vscode.Disposable {
+  private readonly context: vscode.ExtensionContext;
+  private recentList: MilestoneView[];
+  // Tasks whose last run failed, by source, folder and name
+  private readonly failing = new Set<string>();
+  private saves = 0;
+  private readonly completeEmitter = new vscode.EventEmitter<MilestoneResult>();
+  readonly onDidComplete = this.completeEmitter.event;
+  private readonly disposables: vscode.Disposable[];
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.recentList = context.globalState.get<MilestoneView[]>("milestones", []);
+    this.disposables = [
+      this.completeEmitter,
+      vscode.tasks.onDidEndTaskProcess(e => this.onTaskEnd(e)),
+      vscode.debug.onDidTerminateDebugSession(session => {
+        // Child sessions end with their parent; count the run once
+        if (session.parentSession) return;
+        this.completeEmitter.fire({ kind: "debug", name: session.name, success: true, recovered: false });
+      }),
+      vscode.workspace.onDidSaveTextDocument(document => {
+        const count = ++this.saves;
+        const milestone = isSaveMilestone(count) ? count : undefined;
+        const name = milestone ? `${milestone} this session` : path.basename(document.uri.path);
+        this.completeEmitter.fire({ kind: "save", name, success: true, recovered: false, document, milestone });
+      })
+    ];
+  }
+
+  get recent(): MilestoneView[] {
+    return this.recentList;
+  }
+
+  // Store a reported result with the XP it earned
+  remember(result: MilestoneResult, xp: number) {
+    const { document, milestone, ...view } = result;
+    this.recentList = [{ ...view, xp, at: Date.now() }, ...this.recentList].slice(0, MAX_RECENT);
+    void this.context.globalState.update("milestones", this.recentList);
+  }
+
+  dispose() {
+    for (const d of this.disposables) d.dispose();
+  }
+
+  private onTaskEnd(e: vscode.TaskProcessEndEvent) {
+    // Undefined when the process was terminated rather than exiting
+    if (e.exitCode === undefined) return;
+    const task = e.execution.task;
+    const scope = typeof task.scope === "object" ? task.scope.name : String(task.scope ?? "");
+    const key = `${task.source}:${scope}:${task.name}`;
+    const success = e.exitCode === 0;
+    const recovered = success && this.failing.has(key);
+    if (success) this.failing.delete(key);
+    else this.failing.add(key);
+    const kind: MilestoneKind = task.group?.id === vscode.TaskGroup.Test.id ? "test" : "task";
+    this.completeEmitter.fire({ kind, name: task.name, success, recovered });
+  }
+}
@@ -0,0 +1,79 @@
+import * as vscode from "vscode";
+import { PrestigeTier } from "../types";
+
+type PrestigeRecord = { at: number; level: number; xp: number };
+
+type PrestigeState = {
+  count: number;
+  history: PrestigeRecord[];
+};
+
+// Cosmetic tiers by prestige count, lowest first
+const TIERS: Array<PrestigeTier & { min: number }> = [
+  { min: 0, name: "Rookie", icon: "$(rocket)", badge: "", palette: [] },
+  { min: 1, name: "Bronze", icon: "$(star-empty)", badge: "🥉", palette: ["#cd7f32", "#e3a869", "#8c5a2b"] },
+  { min: 2, name: "Silver", icon: "$(star-half)", badge: "🥈", palette: ["#c0c0c0", "#e8e8e8", "#8fa3b8"] },
+  { min: 3, name: "Gold", icon: "$(star-full)", badge: "🥇", palette: ["#ffd700", "#ffb300", "#fff1a8"] },
+  { min: 5, name: "Diamond", icon: "$(ruby)", badge: "💎", palette: ["#7df9ff", "#b9f2ff", "#4fc3f7", "#ffffff"] },
+  { min: 10, name: "Legend", icon: "$(zap)", badge: "👑", palette: ["#ff00e5", "#8a2be2", "#ff8a00", "#00e5ff"] }
+];
+
+export class PrestigeService {
+  private readonly context: vscode.ExtensionContext;
+  private state!: PrestigeState;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.reload();
+  }
+
+  reload() {
+    this.state = this.context.globalState.get<PrestigeState>("prestige", { count: 0, history: [] });
+  }
+
+  private getConfig() {
+    const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+    const minLevel = Math.max(2, cfg.get<number>("prestige.minLevel", 25));
+    const bonusPerPrestige = Math.max(0, cfg.get<number>("prestige.bonusPerPrestige", 0.1));
+    return { minLevel, bonusPerPrestige };
+  }
+
+  get count(): number {
+    return this.state.count;
+  }
+
+  get history(): readonly PrestigeRecord[] {
+    return this.state.history;
+  }
+
+  get minLevel(): number {
+    return this.getConfig().minLevel;
+  }
+
+  // Permanent XP multiplier granted by past prestiges
+  get multiplier(): number {
+    return 1 + this.state.count * this.getConfig().bonusPerPrestige;
+  }
+
+  get tier(): PrestigeTier {
+    let tier = TIERS[0];
+    for (const t of TIERS) {
+      if (this.state.count >= t.min) tier = t;
+    }
+    const { min, ...view } = tier;
+    return view;
+  }
+
+  canPrestige(level: number): boolean {
+    return level >= this.getConfig().minLevel;
+  }
+
+  // Record a prestige at the given level; the caller resets XPService
+  prestige(level: number, xp: number) {
+    this.state = {
+      count: this.state.count + 1,
+      history: [...this.state.history, { at: Date.now(), level, xp }]
+    };
+    void this.context.globalState.update("prestige", this.state);
+  }
+}
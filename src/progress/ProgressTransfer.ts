@@ -0,0 +1,212 @@
+import * as vscode from "vscode";
+import { DailyStats } from "../types";
+import { CURVE_NAMES, CurveName, CurveSpec } from "../xp/LevelCurves";
+
+export const PROGRESS_FORMAT = "ridiculous-coding-progress";
+export const PROGRESS_VERSION = 1;
+
+// Every globalState key that makes up the user's progress
+export const PROGRESS_KEYS = [
+  "xp",
+  "level",
+  "xpNextAbs",
+  "xpLevelStart",
+  "levelCurve",
+  "dailyStats",
+  "skills.languages",
+  "skills.workspaces",
+  "achievements",
+  "achievementCounters",
+  "prestige"
+];
+
+type SkillBucket = { label: string; xp: number; chars: number; deletes: number; newlines: number };
+
+export type ProgressDocument = {
+  format: typeof PROGRESS_FORMAT;
+  version: number;
+  exportedAt: string;
+  // `curve` is the level curve the totals were earned under; optional for older documents
+  xp: { xp: number; level: number; xpNextAbs: number; xpLevelStart: number; curve?: CurveSpec };
+  history: Record<string, DailyStats>;
+  skills: { languages: Record<string, SkillBucket>; workspaces: Record<string, SkillBucket> };
+  achievements: { unlocked: Record<string, number>; counters: Record<string, number> };
+  // Optional so documents exported before prestige existed still import
+  prestige?: { count: number; history: Array<{ at: number; level: number; xp: number }> };
+};
+
+export type ImportMode = "merge" | "replace";
+
+export function exportProgress(state: vscode.Memento): ProgressDocument {
+  return {
+    format: PROGRESS_FORMAT,
+    version: PROGRESS_VERSION,
+    exportedAt: new Date().toISOString(),
+    xp: {
+      xp: state.get<number>("xp", 0),
+      level: state.get<number>("level", 1),
+      xpNextAbs: state.get<number>("xpNextAbs", 100),
+      xpLevelStart: state.get<number>("xpLevelStart", 0),
+      curve: state.get<CurveSpec>("levelCurve")
+    },
+    history: state.get<Record<string, DailyStats>>("dailyStats", {}),
+    skills: {
+      languages: state.get<Record<string, SkillBucket>>("skills.languages", {}),
+      workspaces: state.get<Record<string, SkillBucket>>("skills.workspaces", {})
+    },
+    achievements: {
+      unlocked: state.get<Record<string, number>>("achievements", {}),
+      counters: state.get<Record<string, number>>("achievementCounters", {})
+    },
+    prestige: state.get("prestige", { count: 0, history: [] })
+  };
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isCount = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v >= 0;
+
+// Returns a list of problems; empty means the document can be imported
+export function validateProgress(doc: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(doc)) return ["Document must be a JSON object."];
+  if (doc.format !== PROGRESS_FORMAT) errors.push(`"format" must be "${PROGRESS_FORMAT}".`);
+  if (typeof doc.version !== "number") errors.push(`"version" must be a number.`);
+  else if (doc.version > PROGRESS_VERSION) errors.push(`Version ${doc.version} is newer than supported version ${PROGRESS_VERSION}.`);
+
+  if (!isObject(doc.xp)) {
+    errors.push(`"xp" must be an object.`);
+  } else {
+    for (const k of ["xp", "level", "xpNextAbs", "xpLevelStart"]) {
+      if (!isCount(doc.xp[k])) errors.push(`"xp.${k}" must be a non-negative number.`);
+    }
+    if (isCount(doc.xp.level) && doc.xp.level < 1) errors.push(`"xp.level" must be at least 1.`);
+    if (doc.xp.curve !== undefined) errors.push(...validateCurve(doc.xp.curve));
+  }
+
+  if (!isObject(doc.history)) {
+    errors.push(`"history" must be an object keyed by date.`);
+  } else {
+    for (const [date, day] of Object.entries(doc.history)) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) errors.push(`"history.${date}" is not a YYYY-MM-DD date.`);
+      if (!isObject(day) || !["chars", "deletes", "newlines", "xp", "activeMinutes"].every(k => isCount(day[k]))) {
+        errors.push(`"history.${date}" must contain non-negative counts.`);
+      }
+    }
+  }
+
+  if (!isObject(doc.skills) || !isObject(doc.skills.languages) || !isObject(doc.skills.workspaces)) {
+    errors.push(`"skills" must contain "languages" and "workspaces" objects.`);
+  } else {
+    for (const group of ["languages", "workspaces"] as const) {
+      for (const [key, b] of Object.entries(doc.skills[group] as Record<string, unknown>)) {
+        if (!isObject(b) || typeof b.label !== "string" || !["xp", "chars", "deletes", "newlines"].every(k => isCount(b[k]))) {
+          errors.push(`"skills.${group}.${key}" is malformed.`);
+        }
+      }
+    }
+  }
+
+  if (!isObject(doc.achievements) || !isObject(doc.achievements.unlocked) || !isObject(doc.achievements.counters)) {
+    errors.push(`"achievements" must contain "unlocked" and "counters" objects.`);
+  } else {
+    for (const group of ["unlocked", "counters"] as const) {
+      for (const [key, v] of Object.entries(doc.achievements[group] as Record<string, unknown>)) {
+        if (!isCount(v)) errors.push(`"achievements.${group}.${key}" must be a non-negative number.`);
+      }
+    }
+  }
+  if (doc.prestige !== undefined) {
+    if (!isObject(doc.prestige) || !isCount(doc.prestige.count) || !Array.isArray(doc.prestige.history)) {
+      errors.push(`"prestige" must contain a "count" and a "history" array.`);
+    } else {
+      doc.prestige.history.forEach((entry: unknown, i) => {
+        if (!isObject(entry) || !["at", "level", "xp"].every(k => isCount(entry[k]))) {
+          errors.push(`"prestige.history[${i}]" must contain "at", "level" and "xp" counts.`);
+        }
+      });
+    }
+  }
+  return errors;
+}
+
+function validateCurve(curve: unknown): string[] {
+  if (!isObject(curve)) return [`"xp.curve" must be an object.`];
+  const errors: string[] = [];
+  if (!CURVE_NAMES.includes(curve.name as CurveName)) errors.push(`"xp.curve.name" must be one of ${CURVE_NAMES.join(", ")}.`);
+  if (!isCount(curve.baseXp) || curve.baseXp <= 0) errors.push(`"xp.curve.baseXp" must be a positive number.`);
+  if (curve.table !== undefined || curve.name === "custom") {
+    const table = curve.table;
+    const valid = Array.isArray(table) && table.length > 0 &&
+      table.every((n: unknown, i) => isCount(n) && n > 0 && (i === 0 || n >= (table[i - 1] as number)));
+    if (!valid) errors.push(`"xp.curve.table" must be a non-empty ascending list of positive numbers.`);
+  }
+  return errors;
+}
+
+// How far along a document is: prestige count, then level, then progress through the level.
+// Totals are not compared because they depend on the level curve.
+function standing(doc: ProgressDocument): number[] {
+  const { xp, level, xpNextAbs, xpLevelStart } = doc.xp;
+  return [doc.prestige?.count ?? 0, level, (xp - xpLevelStart) / Math.max(1, xpNextAbs - xpLevelStart)];
+}
+
+function isAhead(a: ProgressDocument, b: ProgressDocument): boolean {
+  const sa = standing(a);
+  const sb = standing(b);
+  const i = sa.findIndex((v, n) => v !== sb[n]);
+  return i >= 0 && sa[i] > sb[i];
+}
+
+function mergeMax<T extends Record<string, unknown>>(a: T | undefined, b: T): T {
+  if (!a) return b;
+  const out: Record<string, unknown> = { ...a };
+  for (const [k, v] of Object.entries(b)) {
+    out[k] = typeof v === "number" && typeof a[k] === "number" ? Math.max(a[k] as number, v) : a[k] ?? v;
+  }
+  return out as T;
+}
+
+function mergeRecords<T extends Record<string, unknown>>(a: Record<string, T>, b: Record<string, T>): Record<string, T> {
+  const out: Record<string, T> = { ...a };
+  for (const [k, v] of Object.entries(b)) out[k] = mergeMax(a[k], v);
+  return out;
+}
+
+// Merge keeps the further-along XP and prestige state, taken together from one side, and the
+// larger value of every counter. An invalid document is rejected before anything is written.
+export async function importProgress(state: vscode.Memento, doc: ProgressDocument, mode: ImportMode): Promise<void> {
+  const errors = validateProgress(doc);
+  if (errors.length) throw new Error(`Invalid progress document: ${errors.join(" ")}`);
+  // A document from before prestige existed has never prestiged
+  let next: ProgressDocument = { ...doc, prestige: doc.prestige ?? { count: 0, history: [] } };
+  if (mode === "merge") {
+    const current = exportProgress(state);
+    const unlocked = { ...current.achievements.unlocked };
+    for (const [id, at] of Object.entries(doc.achievements.unlocked)) {
+      unlocked[id] = unlocked[id] ? Math.min(unlocked[id], at) : at;
+    }
+    next = {
+      ...next,
+      // Prestige resets XP, so XP and prestige only make sense as a pair
+      ...(isAhead(next, current) ? { xp: next.xp, prestige: next.prestige } : { xp: current.xp, prestige: current.prestige }),
+      history: mergeRecords(current.history, doc.history),
+      skills: {
+        languages: mergeRecords(current.skills.languages, doc.skills.languages),
+        workspaces: mergeRecords(current.skills.workspaces, doc.skills.workspaces)
+      },
+      achievements: { unlocked, counters: mergeMax(current.achievements.counters, doc.achievements.counters) }
+    };
+  }
+  await state.update("xp", next.xp.xp);
+  await state.update("level", next.xp.level);
+  await state.update("xpNextAbs", next.xp.xpNextAbs);
+  await state.update("xpLevelStart", next.xp.xpLevelStart);
+  // Without a curve the stored level is taken as-is and placed on the current curve
+  await state.update("levelCurve", next.xp.curve);
+  await state.update("dailyStats", next.history);
+  await state.update("skills.languages", next.skills.languages);
+  await state.update("skills.workspaces", next.skills.workspaces);
+  await state.update("achievements", next.achievements.unlocked);
+  await state.update("achievementCounters", next.achievements.counters);
+  if (next.prestige) await state.update("prestige", next.prestige);
+}
@@ -0,0 +1,190 @@
+import * as vscode from "vscode";
+import { QUESTS, QUESTS_PER_PERIOD, QUEST_METRICS, QuestDef, QuestMetric, QuestPeriod } from "./catalog";
+import { dayKey } from "../stats/StatsService";
+import { QuestView } from "../types";
+import { StateWriter } from "../state/StateWriter";
+
+export type QuestDelta = Partial<Record<Exclude<QuestMetric, "noBackspaceMinutes">, number>> & {
+  // Language of the document the activity happened in, for language quests
+  languageId?: string;
+};
+
+type PeriodState = { key: string; progress: Record<string, number>; completed: Record<string, number> };
+type QuestState = Record<QuestPeriod, PeriodState>;
+
+// A pause longer than this restarts the no-backspace streak, so idle time doesn't count
+const STREAK_IDLE_MS = 2 * 60_000;
+
+// FNV-1a: a stable seed from the period key
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32: small seeded PRNG so every machine picks the same quests for a date
+function seeded(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Weeks start on Monday, local time
+function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day;
+}
+
+function periodStart(period: QuestPeriod, date: Date): Date {
+  return period === "daily" ? startOfDay(date) : startOfWeek(date);
+}
+
+function periodEnd(period: QuestPeriod, date: Date): number {
+  const end = periodStart(period, date);
+  end.setDate(end.getDate() + (period === "daily" ? 1 : 7));
+  return end.getTime();
+}
+
+// A custom quest from settings, or a reason it was skipped
+function parseCustom(raw: unknown, index: number): QuestDef | string {
+  const q = raw as Partial<QuestDef> | null;
+  const where = `ridiculousCoding.quests.custom[${index}]`;
+  if (!q || typeof q !== "object") return `${where} is not an object`;
+  if (typeof q.id !== "string" || !q.id) return `${where}.id must be a non-empty string`;
+  if (typeof q.title !== "string" || !q.title) return `${where}.title must be a non-empty string`;
+  if (q.period !== "daily" && q.period !== "weekly") return `${where}.period must be "daily" or "weekly"`;
+  if (!QUEST_METRICS.includes(q.metric as QuestMetric)) return `${where}.metric must be one of ${QUEST_METRICS.join(", ")}`;
+  if (typeof q.target !== "number" || !(q.target > 0)) return `${where}.target must be a positive number`;
+  if (q.xp !== undefined && (typeof q.xp !== "number" || q.xp < 0)) return `${where}.xp must be zero or more`;
+  if (q.language !== undefined && typeof q.language !== "string") return `${where}.language must be a language id`;
+  return { id: q.id, title: q.title, period: q.period, metric: q.metric as QuestMetric, target: q.target, xp: q.xp ?? 0, language: q.language };
+}
+
+// Daily and weekly quests picked deterministically from the date, with progress that
+// resets when the day or week rolls over
+export class QuestService implements vscode.Disposable {
+  private readonly context: vscode.ExtensionContext;
+  private readonly writer: StateWriter;
+  private state!: QuestState;
+  private definitions: QuestDef[] = [];
+  // Custom quests that were skipped, with the reason
+  errors: string[] = [];
+  private streakStart?: number;
+  private lastEditAt?: number;
+  private readonly completeEmitter = new vscode.EventEmitter<QuestDef>();
+  readonly onDidComplete = this.completeEmitter.event;
+
+  constructor(context: vscode.ExtensionContext, writer: StateWriter) {
+    this.context = context;
+    this.writer = writer;
+    this.state = context.globalState.get<QuestState>("quests", {
+      daily: { key: "", progress: {}, completed: {} },
+      weekly: { key: "", progress: {}, completed: {} }
+    });
+    this.reloadDefinitions();
+  }
+
+  // Built-in quests plus valid ones from settings; a custom quest replaces a built-in with its id
+  reloadDefinitions() {
+    const custom = vscode.workspace.getConfiguration("ridiculousCoding").get<unknown[]>("quests.custom", []);
+    const byId = new Map(QUESTS.map(q => [q.id, q]));
+    this.errors = [];
+    (Array.isArray(custom) ? custom : []).forEach((raw, i) => {
+      const parsed = parseCustom(raw, i);
+      if (typeof parsed === "string") this.errors.push(parsed);
+      else byId.set(parsed.id, parsed);
+    });
+    this.definitions = [...byId.values()].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  // The quests for the period containing `date`; the same on every machine for the same definitions
+  active(date = new Date()): QuestDef[] {
+    const picked: QuestDef[] = [];
+    for (const period of ["daily", "weekly"] as QuestPeriod[]) {
+      const pool = this.definitions.filter(q => q.period === period);
+      const random = seeded(hash(`${period}:${dayKey(periodStart(period, date))}`));
+      for (let i = pool.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+      }
+      picked.push(...pool.slice(0, QUESTS_PER_PERIOD[period]));
+    }
+    return picked;
+  }
+
+  get view(): QuestView[] {
+    const now = new Date();
+    this.rollOver(now);
+    return this.active(now).map(q => ({
+      id: q.id,
+      title: q.title,
+      period: q.period,
+      progress: this.state[q.period].progress[q.id] ?? 0,
+      target: q.target,
+      xp: q.xp,
+      completedAt: this.state[q.period].completed[q.id],
+      endsAt: periodEnd(q.period, now)
+    }));
+  }
+
+  // Count activity toward the current quests; returns whether any progress changed
+  record(delta: QuestDelta, now = new Date()): boolean {
+    const t = now.getTime();
+    if (delta.deletes) {
+      this.streakStart = t;
+    } else if (delta.chars && (this.lastEditAt === undefined || t - this.lastEditAt > STREAK_IDLE_MS)) {
+      this.streakStart = t;
+    }
+    if (delta.chars || delta.deletes) this.lastEditAt = t;
+    const streakMinutes = delta.chars && !delta.deletes && this.streakStart !== undefined
+      ? Math.floor((t - this.streakStart) / 60_000)
+      : 0;
+
+    this.rollOver(now);
+    const completed: QuestDef[] = [];
+    let changed = false;
+    for (const q of this.active(now)) {
+      const period = this.state[q.period];
+      if (period.completed[q.id]) continue;
+      if (q.language && q.language !== delta.languageId) continue;
+      const before = period.progress[q.id] ?? 0;
+      const next =
+        q.metric === "combo" ? Math.max(before, delta.combo ?? 0)
+        : q.metric === "noBackspaceMinutes" ? Math.max(before, streakMinutes)
+        : before + (delta[q.metric] ?? 0);
+      if (next <= before) continue;
+      period.progress[q.id] = Math.min(next, q.target);
+      changed = true;
+      if (next >= q.target) {
+        period.completed[q.id] = t;
+        completed.push(q);
+      }
+    }
+    if (changed) this.writer.schedule("quests", () => this.state);
+    for (const q of completed) this.completeEmitter.fire(q);
+    return changed;
+  }
+
+  dispose() {
+    this.completeEmitter.dispose();
+  }
+
+  private rollOver(now: Date) {
+    for (const period of ["daily", "weekly"] as QuestPeriod[]) {
+      const key = dayKey(periodStart(period, now));
+      if (this.state[period].key !== key) this.state[period] = { key, progress: {}, completed: {} };
+    }
+  }
+}
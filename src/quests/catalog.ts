@@ -0,0 +1,46 @@
+// What a quest counts; "combo" and "noBackspaceMinutes" track the best value reached
+export type QuestMetric =
+  | "chars"
+  | "newlines"
+  | "deletes"
+  | "linesDeleted"
+  | "saves"
+  | "xp"
+  | "combo"
+  | "noBackspaceMinutes";
+
+export type QuestPeriod = "daily" | "weekly";
+
+export const QUEST_METRICS: QuestMetric[] = ["chars", "newlines", "deletes", "linesDeleted", "saves", "xp", "combo", "noBackspaceMinutes"];
+
+export interface QuestDef {
+  id: string;
+  title: string;
+  period: QuestPeriod;
+  metric: QuestMetric;
+  target: number;
+  // Bonus XP on completion
+  xp: number;
+  // Only edits in documents with this language id count
+  language?: string;
+}
+
+// Quests picked per day and per week
+export const QUESTS_PER_PERIOD: Record<QuestPeriod, number> = { daily: 3, weekly: 2 };
+
+export const QUESTS: QuestDef[] = [
+  { id: "daily-chars", title: "Type 2,000 characters", period: "daily", metric: "chars", target: 2_000, xp: 100 },
+  { id: "daily-python", title: "Type 2,000 characters in Python", period: "daily", metric: "chars", target: 2_000, xp: 150, language: "python" },
+  { id: "daily-typescript", title: "Type 2,000 characters in TypeScript", period: "daily", metric: "chars", target: 2_000, xp: 150, language: "typescript" },
+  { id: "daily-lines", title: "Write 200 lines", period: "daily", metric: "newlines", target: 200, xp: 100 },
+  { id: "daily-delete-lines", title: "Delete 100 lines", period: "daily", metric: "linesDeleted", target: 100, xp: 100 },
+  { id: "daily-saves", title: "Save 20 files", period: "daily", metric: "saves", target: 20, xp: 75 },
+  { id: "daily-no-backspace", title: "Don't use backspace for 5 minutes", period: "daily", metric: "noBackspaceMinutes", target: 5, xp: 120 },
+  { id: "daily-combo", title: "Reach a x25 combo", period: "daily", metric: "combo", target: 25, xp: 100 },
+  { id: "weekly-chars", title: "Type 20,000 characters", period: "weekly", metric: "chars", target: 20_000, xp: 500 },
+  { id: "weekly-xp", title: "Earn 5,000 XP", period: "weekly", metric: "xp", target: 5_000, xp: 400 },
+  { id: "weekly-delete-lines", title: "Delete 1,000 lines", period: "weekly", metric: "linesDeleted", target: 1_000, xp: 400 },
+  { id: "weekly-saves", title: "Save 150 files", period: "weekly", metric: "saves", target: 150, xp: 300 },
+  { id: "weekly-combo", title: "Reach a x50 combo", period: "weekly", metric: "combo", target: 50, xp: 300 },
+  { id: "weekly-no-backspace", title: "Go 15 minutes without backspace", period: "weekly", metric: "noBackspaceMinutes", target: 15, xp: 400 }
+];
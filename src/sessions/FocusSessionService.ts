@@ -0,0 +1,159 @@
+import * as vscode from "vscode";
+import { SessionRecord, SessionView } from "../types";
+
+// Finished sessions kept for the panel
+const MAX_RECORDS = 20;
+
+export type SessionDelta = { xp?: number; chars?: number; deletes?: number; combo?: number };
+
+type Plan = { focusMinutes: number; breakMinutes: number; rounds: number };
+
+type Running = Plan & {
+  startedAt: number;
+  phase: SessionView["phase"];
+  round: number;
+  phaseEndsAt: number;
+  completedRounds: number;
+  xp: number;
+  chars: number;
+  deletes: number;
+  bestCombo: number;
+};
+
+// Pomodoro-style focus sessions: focus rounds separated by breaks, with activity totals
+// for the whole session. Only the finished records are persisted.
+export class FocusSessionService implements vscode.Disposable {
+  private readonly context: vscode.ExtensionContext;
+  private running?: Running;
+  private timer?: ReturnType<typeof setInterval>;
+  private readonly tickEmitter = new vscode.EventEmitter<void>();
+  // Every second while a session runs, for countdowns
+  readonly onDidTick = this.tickEmitter.event;
+  private readonly changeEmitter = new vscode.EventEmitter<SessionView | undefined>();
+  // Start, phase changes and stop
+  readonly onDidChange = this.changeEmitter.event;
+  private readonly endEmitter = new vscode.EventEmitter<SessionRecord>();
+  readonly onDidEnd = this.endEmitter.event;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+  }
+
+  get active(): SessionView | undefined {
+    const r = this.running;
+    if (!r) return undefined;
+    return {
+      phase: r.phase,
+      round: r.round,
+      rounds: r.rounds,
+      phaseEndsAt: r.phaseEndsAt,
+      startedAt: r.startedAt,
+      xp: r.xp,
+      chars: r.chars,
+      deletes: r.deletes,
+      bestCombo: r.bestCombo
+    };
+  }
+
+  get onBreak(): boolean {
+    return this.running?.phase === "break";
+  }
+
+  get recent(): SessionRecord[] {
+    return this.context.globalState.get<SessionRecord[]>("sessions", []);
+  }
+
+  start() {
+    if (this.running) return;
+    const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+    const plan: Plan = {
+      focusMinutes: Math.max(1, cfg.get<number>("session.focusMinutes", 25)),
+      breakMinutes: Math.max(1, cfg.get<number>("session.breakMinutes", 5)),
+      rounds: Math.max(1, Math.round(cfg.get<number>("session.rounds", 4)))
+    };
+    const now = Date.now();
+    this.running = {
+      ...plan,
+      startedAt: now,
+      phase: "focus",
+      round: 1,
+      phaseEndsAt: now + plan.focusMinutes * 60_000,
+      completedRounds: 0,
+      xp: 0,
+      chars: 0,
+      deletes: 0,
+      bestCombo: 0
+    };
+    this.timer = setInterval(() => this.tick(), 1000);
+    this.changeEmitter.fire(this.active);
+  }
+
+  // End early; the record keeps the rounds finished so far
+  stop(): SessionRecord | undefined {
+    return this.finish(false);
+  }
+
+  record(delta: SessionDelta) {
+    const r = this.running;
+    if (!r) return;
+    r.xp += delta.xp ?? 0;
+    r.chars += delta.chars ?? 0;
+    r.deletes += delta.deletes ?? 0;
+    r.bestCombo = Math.max(r.bestCombo, delta.combo ?? 0);
+  }
+
+  dispose() {
+    if (this.timer) clearInterval(this.timer);
+    this.running = undefined;
+    this.tickEmitter.dispose();
+    this.changeEmitter.dispose();
+    this.endEmitter.dispose();
+  }
+
+  private tick() {
+    const r = this.running;
+    if (!r) return;
+    const now = Date.now();
+    if (now >= r.phaseEndsAt) {
+      if (r.phase === "focus") {
+        r.completedRounds++;
+        if (r.completedRounds >= r.rounds) {
+          this.finish(true);
+          return;
+        }
+        r.phase = "break";
+        r.phaseEndsAt = now + r.breakMinutes * 60_000;
+      } else {
+        r.phase = "focus";
+        r.round++;
+        r.phaseEndsAt = now + r.focusMinutes * 60_000;
+      }
+      this.changeEmitter.fire(this.active);
+    }
+    this.tickEmitter.fire();
+  }
+
+  private finish(completed: boolean): SessionRecord | undefined {
+    const r = this.running;
+    if (!r) return undefined;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    this.running = undefined;
+    const record: SessionRecord = {
+      startedAt: r.startedAt,
+      endedAt: Date.now(),
+      focusMinutes: r.focusMinutes,
+      rounds: r.rounds,
+      completedRounds: r.completedRounds,
+      completed,
+      xp: r.xp,
+      chars: r.chars,
+      deletes: r.deletes,
+      bestCombo: r.bestCombo
+    };
+    void this.context.globalState.update("sessions", [record, ...this.recent].slice(0, MAX_RECORDS));
+    this.changeEmitter.fire(undefined);
+    this.endEmitter.fire(record);
+    return record;
+  }
+}
@@ -0,0 +1,226 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { EffectKind, SoundKind } from "../types";
+import { pickAnimation } from "../sprites/SpriteAnimation";
+import { SHEET_EXTENSIONS, readSheetAnimations } from "../sprites/SpriteSheets";
+
+export const DEFAULT_SKIN_ID = "default";
+export const SKIN_MANIFEST = "skin.json";
+
+const EFFECT_KINDS: EffectKind[] = ["blip", "boom", "newline"];
+const FONT_EXTENSIONS = [".ttf", ".otf", ".woff", ".woff2"];
+const COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// What a pack's skin.json may declare; every entry is optional and falls back to the built-in skin
+type SkinManifest = {
+  name: string;
+  effects?: Partial<Record<EffectKind, { sprite?: { sheet: string; png: string; animation?: string }; sound?: string; color?: string }>>;
+  sounds?: { fireworks?: string };
+  font?: string;
+};
+
+export type ResolvedSkin = {
+  id: string;
+  name: string;
+  root: vscode.Uri;
+  sprites: Record<EffectKind, { sheet: vscode.Uri; png: vscode.Uri; animation?: string }>;
+  sounds: Record<SoundKind, vscode.Uri>;
+  font: vscode.Uri;
+  colors: Partial<Record<EffectKind, string>>;
+};
+
+export type SkinPack = {
+  id: string;
+  name: string;
+  dir: vscode.Uri;
+  errors: string[];
+};
+
+export class SkinService {
+  private readonly context: vscode.ExtensionContext;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+  }
+
+  get builtIn(): ResolvedSkin {
+    const media = vscode.Uri.joinPath(this.context.extensionUri, "media");
+    const anim = vscode.Uri.joinPath(media, "animations");
+    const sound = vscode.Uri.joinPath(media, "sound");
+    const sprite = (k: EffectKind) => ({
+      sheet: vscode.Uri.joinPath(anim, `${k}.tscn`),
+      png: vscode.Uri.joinPath(anim, `${k}.png`)
+    });
+    return {
+      id: DEFAULT_SKIN_ID,
+      name: "Default",
+      root: media,
+      sprites: { blip: sprite("blip"), boom: sprite("boom"), newline: sprite("newline") },
+      sounds: {
+        blip: vscode.Uri.joinPath(sound, "blip.wav"),
+        boom: vscode.Uri.joinPath(sound, "boom.wav"),
+        fireworks: vscode.Uri.joinPath(sound, "fireworks.wav")
+      },
+      font: vscode.Uri.joinPath(media, "font", "GravityBold8.ttf"),
+      colors: {}
+    };
+  }
+
+  // Folders that may contain skin packs, one pack per sub-folder
+  get searchRoots(): vscode.Uri[] {
+    const roots = [vscode.Uri.joinPath(this.context.globalStorageUri, "skins")];
+    const custom = vscode.workspace.getConfiguration("ridiculousCoding").get<string>("skinsPath", "");
+    if (custom.trim()) roots.push(vscode.Uri.file(custom.trim()));
+    return roots;
+  }
+
+  async discover(): Promise<SkinPack[]> {
+    const packs: SkinPack[] = [];
+    for (const root of this.searchRoots) {
+      let entries: [string, vscode.FileType][];
+      try {
+        entries = await vscode.workspace.fs.readDirectory(root);
+      } catch {
+        continue; // folder does not exist yet
+      }
+      for (const [name, type] of entries) {
+        if (type !== vscode.FileType.Directory) continue;
+        const dir = vscode.Uri.joinPath(root, name);
+        const { manifest, errors } = await this.readManifest(dir);
+        packs.push({ id: name, name: manifest?.name ?? name, dir, errors });
+      }
+    }
+    return packs;
+  }
+
+  // Resolve a skin by folder name; malformed packs fall back to the built-in skin and report why
+  async resolve(id: string): Promise<{ skin: ResolvedSkin; errors: string[] }> {
+    const base = this.builtIn;
+    if (!id || id === DEFAULT_SKIN_ID) return { skin: base, errors: [] };
+    const pack = (await this.discover()).find(p => p.id === id);
+    if (!pack) {
+      return { skin: base, errors: [`No skin folder named "${id}" in ${this.searchRoots.map(r => r.fsPath).join(" or ")}.`] };
+    }
+    const { manifest, errors } = await this.readManifest(pack.dir);
+    if (!manifest || errors.length) return { skin: base, errors };
+
+    const file = (rel: string) => vscode.Uri.joinPath(pack.dir, rel);
+    const skin: ResolvedSkin = { ...base, id, name: manifest.name, root: pack.dir, colors: {} };
+    skin.sprites = { ...base.sprites };
+    skin.sounds = { ...base.sounds };
+    for (const kind of EFFECT_KINDS) {
+      const effect = manifest.effects?.[kind];
+      if (!effect) continue;
+      if (effect.sprite) {
+        skin.sprites[kind] = { sheet: file(effect.sprite.sheet), png: file(effect.sprite.png), animation: effect.sprite.animation };
+      }
+      if (effect.sound && kind !== "newline") skin.sounds[kind] = file(effect.sound);
+      if (effect.color) skin.colors[kind] = effect.color;
+    }
+    if (manifest.sounds?.fireworks) skin.sounds.fireworks = file(manifest.sounds.fireworks);
+    if (manifest.font) skin.font = file(manifest.font);
+    return { skin, errors: [] };
+  }
+
+  private async readManifest(dir: vscode.Uri): Promise<{ manifest?: SkinManifest; errors: string[] }> {
+    let raw: unknown;
+    try {
+      const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(dir, SKIN_MANIFEST));
+      raw = JSON.parse(Buffer.from(bytes).toString("utf8"));
+    } catch (err) {
+      const reason = err instanceof SyntaxError ? `is not valid JSON (${err.message})` : "is missing";
+      return { errors: [`${SKIN_MANIFEST} ${reason}.`] };
+    }
+    const errors = await this.validate(dir, raw);
+    return { manifest: errors.length ? undefined : (raw as SkinManifest), errors };
+  }
+
+  // The sheet must parse and contain the requested animation, or one for the effect kind or a default
+  private async checkSheet(field: string, uri: vscode.Uri, kind: EffectKind, animation?: string): Promise<string[]> {
+    try {
+      const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+      const animations = readSheetAnimations(uri.fsPath, text);
+      if (animation && !animations.some(a => a.name === animation && a.frames.length)) {
+        return [`"${field}.animation" names no animation with frames; found ${animations.map(a => `"${a.name}"`).join(", ") || "none"}.`];
+      }
+      if (!pickAnimation(animations, kind)) return [`"${field}.sheet" has no animation with frames.`];
+      return [];
+    } catch (err) {
+      return [`"${field}.sheet" could not be read: ${err instanceof Error ? err.message : String(err)}.`];
+    }
+  }
+
+  private async validate(dir: vscode.Uri, raw: unknown): Promise<string[]> {
+    const errors: string[] = [];
+    const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+    if (!isObject(raw)) return [`${SKIN_MANIFEST} must contain a JSON object.`];
+    if (typeof raw.name !== "string" || !raw.name.trim()) errors.push(`"name" must be a non-empty string.`);
+
+    const checkFile = async (field: string, rel: unknown, extensions?: string[]) => {
+      if (typeof rel !== "string" || !rel) {
+        errors.push(`"${field}" must be a relative file path.`);
+        return;
+      }
+      const resolved = path.resolve(dir.fsPath, rel);
+      if (path.isAbsolute(rel) || !resolved.startsWith(path.resolve(dir.fsPath) + path.sep)) {
+        errors.push(`"${field}" must stay inside the skin folder.`);
+        return;
+      }
+      if (extensions && !extensions.includes(path.extname(rel).toLowerCase())) {
+        errors.push(`"${field}" must be one of ${extensions.join(", ")}.`);
+        return;
+      }
+      try {
+        await vscode.workspace.fs.stat(vscode.Uri.joinPath(dir, rel));
+      } catch {
+        errors.push(`"${field}" points to missing file "${rel}".`);
+      }
+    };
+
+    if (raw.effects !== undefined) {
+      if (!isObject(raw.effects)) {
+        errors.push(`"effects" must be an object keyed by ${EFFECT_KINDS.join(", ")}.`);
+      } else {
+        for (const [kind, effect] of Object.entries(raw.effects)) {
+          if (!EFFECT_KINDS.includes(kind as EffectKind)) {
+            errors.push(`"effects.${kind}" is not an effect kind (${EFFECT_KINDS.join(", ")}).`);
+            continue;
+          }
+          if (!isObject(effect)) {
+            errors.push(`"effects.${kind}" must be an object.`);
+            continue;
+          }
+          if (effect.sprite !== undefined) {
+            const sprite = effect.sprite;
+            if (!isObject(sprite)) {
+              errors.push(`"effects.${kind}.sprite" must have "sheet" and "png".`);
+            } else {
+              const field = `effects.${kind}.sprite`;
+              const before = errors.length;
+              await checkFile(`${field}.sheet`, sprite.sheet, SHEET_EXTENSIONS);
+              await checkFile(`${field}.png`, sprite.png, [".png"]);
+              if (sprite.animation !== undefined && typeof sprite.animation !== "string") {
+                errors.push(`"${field}.animation" must be an animation name.`);
+              } else if (errors.length === before && typeof sprite.sheet === "string") {
+                errors.push(...await this.checkSheet(field, vscode.Uri.joinPath(dir, sprite.sheet), kind as EffectKind, sprite.animation));
+              }
+            }
+          }
+          if (effect.sound !== undefined) {
+            if (kind === "newline") errors.push(`"effects.newline.sound" is not supported; newlines are silent.`);
+            else await checkFile(`effects.${kind}.sound`, effect.sound, [".wav", ".mp3", ".ogg"]);
+          }
+          if (effect.color !== undefined && (typeof effect.color !== "string" || !COLOR.test(effect.color))) {
+            errors.push(`"effects.${kind}.color" must be a hex color like "#ff8a00".`);
+          }
+        }
+      }
+    }
+    if (raw.sounds !== undefined) {
+      if (!isObject(raw.sounds)) errors.push(`"sounds" must be an object.`);
+      else if (raw.sounds.fireworks !== undefined) await checkFile("sounds.fireworks", raw.sounds.fireworks, [".wav", ".mp3", ".ogg"]);
+    }
+    if (raw.font !== undefined) await checkFile("font", raw.font, FONT_EXTENSIONS);
+    return errors;
+  }
+}
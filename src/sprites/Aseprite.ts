@@ -0,0 +1,56 @@
+import { SpriteAnimation, SpriteFrame } from "./SpriteAnimation";
+import { AtlasFrame, readAtlasFrames } from "./TexturePacker";
+
+type FrameTag = { name: string; from: number; to: number; direction?: string; repeat?: string };
+
+// Durations are milliseconds, so one tick is one millisecond
+const MS_PER_SECOND = 1000;
+const DEFAULT_FRAME_MS = 100;
+
+function readTags(doc: unknown, frameCount: number): FrameTag[] {
+  const meta = (doc as { meta?: { frameTags?: unknown } }).meta;
+  const tags = Array.isArray(meta?.frameTags) ? meta!.frameTags as unknown[] : [];
+  return tags.map((t, i) => {
+    const tag = t as Partial<FrameTag>;
+    const { from, to } = tag;
+    if (typeof from !== "number" || typeof to !== "number" || from < 0 || to < from || to >= frameCount) {
+      throw new Error(`Frame tag ${typeof tag.name === "string" ? `"${tag.name}"` : i} has an invalid from/to range`);
+    }
+    return { name: typeof tag.name === "string" ? tag.name : `tag_${i}`, from, to, direction: tag.direction, repeat: tag.repeat };
+  });
+}
+
+// Frame order for a tag's playback direction
+function ordered(frames: AtlasFrame[], direction?: string): AtlasFrame[] {
+  const reversed = [...frames].reverse();
+  switch (direction) {
+    case "reverse": return reversed;
+    case "pingpong": return [...frames, ...reversed.slice(1, -1)];
+    case "pingpong_reverse": return [...reversed, ...frames.slice(1, -1)];
+    default: return frames;
+  }
+}
+
+// Aseprite loops forever unless a tag sets a repeat count; an untagged sheet plays like a forward tag
+const loops = (repeat?: string) => !repeat || repeat === "0";
+
+export function isAsepriteSheet(doc: unknown): boolean {
+  const meta = (doc as { meta?: { app?: unknown; frameTags?: unknown } } | null)?.meta;
+  return typeof meta?.app === "string" ? /aseprite/i.test(meta.app) : Array.isArray(meta?.frameTags);
+}
+
+// Each frame tag becomes a named animation; a sheet without tags is one "default" animation
+export function readAsepriteAnimations(doc: unknown): SpriteAnimation[] {
+  const frames = readAtlasFrames(doc);
+  const toFrame = (f: AtlasFrame): SpriteFrame => ({ region: f.region, duration: f.durationMs ?? DEFAULT_FRAME_MS });
+  const tags = readTags(doc, frames.length);
+  if (!tags.length) {
+    return [{ name: "default", speed: MS_PER_SECOND, loop: loops(), frames: frames.map(toFrame) }];
+  }
+  return tags.map(tag => ({
+    name: tag.name,
+    speed: MS_PER_SECOND,
+    loop: loops(tag.repeat),
+    frames: ordered(frames.slice(tag.from, tag.to + 1), tag.direction).map(toFrame)
+  }));
+}
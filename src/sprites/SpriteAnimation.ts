@@ -0,0 +1,30 @@
+// Frame model shared by every sprite sheet importer and consumed by EffectManager
+
+export type FrameRect = { x: number; y: number; w: number; h: number };
+
+export type SpriteFrame = {
+  // Source texture path as written in the sheet, when it names one
+  texture?: string;
+  // Region of the sheet image; undefined means the whole image
+  region?: FrameRect;
+  // Relative duration; 1.0 lasts one tick of the animation speed
+  duration: number;
+};
+
+export type SpriteAnimation = {
+  name: string;
+  // Ticks per second
+  speed: number;
+  loop: boolean;
+  frames: SpriteFrame[];
+};
+
+// First animation with frames matching one of the names in order, then "default", then any
+export function pickAnimation(animations: SpriteAnimation[], ...names: Array<string | undefined>): SpriteAnimation | undefined {
+  const withFrames = animations.filter(a => a.frames.length);
+  for (const name of [...names, "default"]) {
+    const found = name ? withFrames.find(a => a.name === name) : undefined;
+    if (found) return found;
+  }
+  return withFrames[0];
+}
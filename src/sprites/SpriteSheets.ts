@@ -0,0 +1,17 @@
+import * as path from "path";
+import { parseGodotResource } from "../godot/GodotResource";
+import { readSpriteAnimations } from "../godot/SpriteFrames";
+import { isAsepriteSheet, readAsepriteAnimations } from "./Aseprite";
+import { SpriteAnimation } from "./SpriteAnimation";
+import { readTexturePackerAnimations } from "./TexturePacker";
+
+export const SHEET_EXTENSIONS = [".tscn", ".tres", ".json"];
+
+// Read every animation from a Godot, Aseprite or TexturePacker sheet; throws on malformed input
+export function readSheetAnimations(fileName: string, text: string): SpriteAnimation[] {
+  if (path.extname(fileName).toLowerCase() !== ".json") {
+    return readSpriteAnimations(parseGodotResource(text));
+  }
+  const doc: unknown = JSON.parse(text);
+  return isAsepriteSheet(doc) ? readAsepriteAnimations(doc) : readTexturePackerAnimations(doc);
+}
@@ -0,0 +1,70 @@
+import { FrameRect, SpriteAnimation } from "./SpriteAnimation";
+
+// TexturePacker carries no timing; frames play at this rate
+export const DEFAULT_SHEET_FPS = 24;
+
+// One entry of the "frames" hash or array shared by TexturePacker and Aseprite exports
+export type AtlasFrame = { name: string; region: FrameRect; durationMs?: number };
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function readRect(v: unknown, where: string): FrameRect {
+  if (!isObject(v) || !["x", "y", "w", "h"].every(k => typeof v[k] === "number")) {
+    throw new Error(`${where} needs a "frame" with numeric x, y, w and h`);
+  }
+  return { x: v.x as number, y: v.y as number, w: v.w as number, h: v.h as number };
+}
+
+// Read frames from the JSON hash ({ "name": {...} }) or JSON array ([{ "filename": ... }]) layout
+export function readAtlasFrames(doc: unknown): AtlasFrame[] {
+  if (!isObject(doc)) throw new Error("Sheet must be a JSON object");
+  const raw = doc.frames;
+  const entries: Array<[string, unknown]> = Array.isArray(raw)
+    ? raw.map((f, i) => [isObject(f) && typeof f.filename === "string" ? f.filename : String(i), f])
+    : isObject(raw) ? Object.entries(raw) : [];
+  if (!entries.length) throw new Error(`Sheet has no "frames"`);
+  return entries.map(([name, f]) => {
+    if (!isObject(f)) throw new Error(`Frame "${name}" must be an object`);
+    // Rotated frames are stored turned 90° in the sheet and cannot be cut out as a plain region
+    if (f.rotated === true) throw new Error(`Frame "${name}" is rotated; export without rotation`);
+    const durationMs = typeof f.duration === "number" && f.duration > 0 ? f.duration : undefined;
+    return { name, region: readRect(f.frame, `Frame "${name}"`), durationMs };
+  });
+}
+
+// "boom_03.png" and "boom-3" both belong to the "boom" animation
+function sequenceName(frameName: string): string {
+  return frameName.replace(/\.[a-z0-9]+$/i, "").replace(/[\s_\-.]*\d+$/, "") || "default";
+}
+
+export function readTexturePackerAnimations(doc: unknown): SpriteAnimation[] {
+  const frames = readAtlasFrames(doc);
+  const byName = new Map(frames.map(f => [f.name, f]));
+  const toAnim = (name: string, list: AtlasFrame[]): SpriteAnimation => ({
+    name,
+    speed: DEFAULT_SHEET_FPS,
+    loop: false,
+    frames: list.map(f => ({ region: f.region, duration: 1 }))
+  });
+
+  // Exporters with animation support list frame names per animation
+  const declared = isObject(doc) && isObject(doc.animations) ? doc.animations : undefined;
+  if (declared) {
+    return Object.entries(declared).map(([name, names]) => {
+      const list = (Array.isArray(names) ? names : []).map(n => byName.get(String(n)));
+      if (list.some(f => !f)) throw new Error(`Animation "${name}" references a missing frame`);
+      return toAnim(name, list as AtlasFrame[]);
+    });
+  }
+
+  // Otherwise group numbered frames into sequences, sorted by their number
+  const groups = new Map<string, AtlasFrame[]>();
+  for (const f of frames) {
+    const key = sequenceName(f.name);
+    groups.set(key, [...(groups.get(key) ?? []), f]);
+  }
+  const index = (n: string) => Number(/(\d+)(\.[a-z0-9]+)?$/i.exec(n)?.[1] ?? 0);
+  return [...groups].map(([name, list]) => toAnim(name, [...list].sort((a, b) => index(a.name) - index(b.name))));
+}
@@ -0,0 +1,43 @@
+import * as vscode from "vscode";
+
+// Writes from the edit stream are batched to at most one per key in this window
+const FLUSH_MS = 5000;
+
+// Batches globalState writes made on every keystroke, shared by the services that make them.
+// Each key is read when the batch is written, so only its latest value goes out; that also
+// keeps Settings Sync quiet. deactivate() returns flush() so the last batch isn't lost.
+export class StateWriter implements vscode.Disposable {
+  private readonly memento: vscode.Memento;
+  private readonly pending = new Map<string, () => unknown>();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(memento: vscode.Memento) {
+    this.memento = memento;
+  }
+
+  // Write `key` with the value `read` returns when the batch goes out
+  schedule(key: string, read: () => unknown) {
+    this.pending.set(key, read);
+    this.timer ??= setTimeout(() => void this.flush(), FLUSH_MS);
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    const writes = [...this.pending].map(([key, read]) => this.memento.update(key, read()));
+    this.pending.clear();
+    await Promise.all(writes);
+  }
+
+  // Drop pending writes of `keys`, e.g. before re-reading state that an import replaced
+  discard(...keys: string[]) {
+    for (const key of keys) this.pending.delete(key);
+    if (this.pending.size || !this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  dispose(): Promise<void> {
+    return this.flush();
+  }
+}
@@ -0,0 +1,96 @@
+import * as vscode from "vscode";
+import { DailyStats } from "../types";
+import { StateWriter } from "../state/StateWriter";
+
+export type StatsDelta = {
+  chars?: number;
+  deletes?: number;
+  newlines?: number;
+  xp?: number;
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Local calendar day as YYYY-MM-DD
+export function dayKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function emptyDay(date: string): DailyStats {
+  return { date, chars: 0, deletes: 0, newlines: 0, xp: 0, activeMinutes: 0 };
+}
+
+export class StatsService {
+  private readonly context: vscode.ExtensionContext;
+  private readonly writer: StateWriter;
+  private daily: Record<string, DailyStats> = {};
+  private lastActiveMinute = -1;
+
+  constructor(context: vscode.ExtensionContext, writer: StateWriter) {
+    this.context = context;
+    this.writer = writer;
+    this.reload();
+  }
+
+  reload() {
+    this.writer.discard("dailyStats");
+    this.daily = this.context.globalState.get<Record<string, DailyStats>>("dailyStats", {});
+    this.prune();
+  }
+
+  private getRetentionDays(): number {
+    const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+    return Math.max(7, cfg.get<number>("stats.retentionDays", 400));
+  }
+
+  record(delta: StatsDelta) {
+    const now = new Date();
+    const key = dayKey(now);
+    let day = this.daily[key];
+    if (!day) {
+      day = this.daily[key] = emptyDay(key);
+      this.prune();
+    }
+    day.chars += delta.chars ?? 0;
+    day.deletes += delta.deletes ?? 0;
+    day.newlines += delta.newlines ?? 0;
+    day.xp += delta.xp ?? 0;
+    // Any activity within a wall-clock minute makes that minute active
+    const minute = Math.floor(now.getTime() / 60_000);
+    if (minute !== this.lastActiveMinute) {
+      this.lastActiveMinute = minute;
+      day.activeMinutes += 1;
+    }
+    this.persist();
+  }
+
+  // The last `count` days ending today, oldest first, with empty days filled in
+  recent(count: number): DailyStats[] {
+    const out: DailyStats[] = [];
+    const today = new Date();
+    for (let i = count - 1; i >= 0; i--) {
+      const key = dayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - i));
+      out.push(this.daily[key] ?? emptyDay(key));
+    }
+    return out;
+  }
+
+  // Every stored day, oldest first
+  get all(): DailyStats[] {
+    return Object.values(this.daily).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private prune() {
+    const cutoff = dayKey(new Date(Date.now() - this.getRetentionDays() * MS_PER_DAY));
+    for (const key of Object.keys(this.daily)) {
+      if (key < cutoff) delete this.daily[key];
+    }
+  }
+
+  private persist() {
+    this.writer.schedule("dailyStats", () => this.daily);
+  }
+}
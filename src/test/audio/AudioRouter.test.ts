@@ -0,0 +1,72 @@
+import * as assert from "assert";
+import { AudioRouter } from "../../audio/AudioRouter";
+import { RecordingAudioSink, RecordingFallbackSink } from "../../audio/RecordingAudioSink";
+import { AudioMessage } from "../../types";
+
+const blip = (pitch: number): AudioMessage => ({ type: "blip", pitch, enabled: true });
+const boom: AudioMessage = { type: "boom", enabled: true };
+const mixer: AudioMessage = {
+  type: "mixer",
+  volumes: { master: 1, blip: 1, boom: 1, fireworks: 1 },
+  styles: { blip: "sample", boom: "sample", fireworks: "sample" },
+  mutedUntil: 0
+};
+
+describe("AudioRouter", () => {
+  let sidebar: RecordingAudioSink;
+  let editor: RecordingFallbackSink;
+  let router: AudioRouter;
+
+  beforeEach(() => {
+    sidebar = new RecordingAudioSink("sidebar", false);
+    editor = new RecordingFallbackSink("editor", false);
+    router = new AudioRouter([sidebar, editor]);
+  });
+
+  afterEach(() => router.dispose());
+
+  it("queues sounds while no webview is ready", () => {
+    router.post(blip(1));
+    router.post(boom);
+    router.post({ type: "fireworks", enabled: false });
+    assert.strictEqual(router.active, undefined);
+    assert.deepStrictEqual(sidebar.messages, []);
+    assert.deepStrictEqual(editor.messages, []);
+  });
+
+  it("replays the queue and mixer state once the webview is ready", () => {
+    router.post(mixer);
+    router.post(blip(1));
+    router.post(blip(2));
+    sidebar.setReady(true);
+    assert.deepStrictEqual(sidebar.messages, [mixer, blip(1), blip(2)]);
+    // Later sounds go straight through, and the queue was emptied
+    router.post(boom);
+    editor.setReady(true);
+    assert.deepStrictEqual(sidebar.messages, [mixer, blip(1), blip(2), boom]);
+    assert.deepStrictEqual(editor.messages, [mixer]);
+  });
+
+  it("opens the fallback while the sidebar is hidden and closes it once the sidebar is ready", () => {
+    router.post(blip(1));
+    assert.strictEqual(editor.opened, 1);
+    editor.setReady(true);
+    assert.strictEqual(router.active, editor);
+    assert.deepStrictEqual(editor.messages, [blip(1)]);
+
+    router.post(boom);
+    assert.deepStrictEqual(editor.messages, [blip(1), boom]);
+    sidebar.setReady(true);
+    assert.strictEqual(editor.closed, 1);
+    assert.strictEqual(router.active, sidebar);
+    assert.deepStrictEqual(sidebar.messages, []);
+  });
+
+  it("leaves the fallback closed when fallback is disabled", () => {
+    router.fallbackEnabled = false;
+    router.post(blip(1));
+    assert.strictEqual(editor.opened, 0);
+    sidebar.setReady(true);
+    assert.deepStrictEqual(sidebar.messages, [blip(1)]);
+  });
+});
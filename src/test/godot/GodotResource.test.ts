@@ -0,0 +1,26 @@
+import * as assert from "assert";
+import { GdConstructor, GodotParseError, parseGodotResource } from "../../godot/GodotResource";
+
+describe("GodotResource", () => {
+  it("indexes ext and sub resources by id in both formats", () => {
+    const file = parseGodotResource([
+      `[gd_resource type="SpriteFrames" load_steps=2 format=2]`,
+      `[ext_resource path="res://sheet.png" type="Texture" id=1]`,
+      `[sub_resource type="AtlasTexture" id=2]`,
+      `atlas = ExtResource( 1 )`,
+      `region = Rect2( 0, 0, 16, 16 )`,
+      `[resource]`,
+      `animations = [ { "frames": [ SubResource( 2 ) ], "loop": true, "name": "default", "speed": 5.0 } ]`
+    ].join("\n"));
+    assert.strictEqual(file.format, 2);
+    assert.strictEqual(file.extResources.get("1")?.attrs.path, "res://sheet.png");
+    const region = file.subResources.get("2")?.props.region;
+    assert.ok(region instanceof GdConstructor);
+    assert.deepStrictEqual(region.args, [0, 0, 16, 16]);
+    assert.ok(Array.isArray(file.resource?.props.animations));
+  });
+
+  it("rejects files without a gd_scene or gd_resource header", () => {
+    assert.throws(() => parseGodotResource(`[node name="A" type="Node2D"]`), GodotParseError);
+  });
+});
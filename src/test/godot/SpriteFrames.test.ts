@@ -0,0 +1,117 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { parseGodotResource } from "../../godot/GodotResource";
+import { readSpriteAnimations } from "../../godot/SpriteFrames";
+import { SpriteAnimation } from "../../sprites/SpriteAnimation";
+
+const ANIMATIONS = path.resolve(__dirname, "../../../media/animations");
+
+function load(name: string): SpriteAnimation[] {
+  return readSpriteAnimations(parseGodotResource(fs.readFileSync(path.join(ANIMATIONS, `${name}.tscn`), "utf8")));
+}
+
+// Atlas regions as [x, y, w, h], in frame order
+function regions(anim: SpriteAnimation): number[][] {
+  return anim.frames.map(f => (f.region ? [f.region.x, f.region.y, f.region.w, f.region.h] : []));
+}
+
+describe("SpriteFrames: bundled animations", () => {
+  it("reads blip: 8 frames at 24 fps, played once", () => {
+    const [anim, ...rest] = load("blip");
+    assert.strictEqual(rest.length, 0);
+    assert.strictEqual(anim.name, "default");
+    assert.strictEqual(anim.speed, 24);
+    assert.strictEqual(anim.loop, false);
+    assert.deepStrictEqual(regions(anim), [
+      [192, 0, 32, 32], [160, 0, 32, 32], [128, 0, 32, 32], [96, 0, 32, 32],
+      [64, 0, 32, 32], [32, 0, 32, 32], [0, 0, 32, 32], [224, 0, 32, 32]
+    ]);
+    assert.ok(anim.frames.every(f => f.duration === 1 && f.texture === "res://addons/ridiculous_coding/blip.png"));
+  });
+
+  it("reads boom: 7 frames at 24 fps, played once", () => {
+    const [anim] = load("boom");
+    assert.strictEqual(anim.speed, 24);
+    assert.strictEqual(anim.loop, false);
+    assert.deepStrictEqual(regions(anim), [
+      [0, 0, 128, 128], [128, 0, 128, 128], [256, 0, 128, 128], [384, 0, 128, 128],
+      [512, 0, 128, 128], [640, 0, 128, 128], [0, 128, 128, 128]
+    ]);
+  });
+
+  it("reads newline: 5 frames at 12 fps, looping", () => {
+    const [anim] = load("newline");
+    assert.strictEqual(anim.speed, 12);
+    assert.strictEqual(anim.loop, true);
+    assert.deepStrictEqual(regions(anim), [
+      [0, 0, 64, 64], [64, 0, 64, 64], [128, 0, 64, 64], [192, 0, 64, 64], [256, 0, 64, 64]
+    ]);
+  });
+});
+
+describe("SpriteFrames: Godot 4 (format=3)", () => {
+  const GODOT4 = [
+    `[gd_scene load_steps=4 format=3 uid="uid://b6x3k2w1m0q8p"]`,
+    ``,
+    `[ext_resource type="Texture2D" uid="uid://c1xg7v0s2wq4n" path="res://sparks.png" id="1_k3v2a"]`,
+    ``,
+    `[sub_resource type="AtlasTexture" id="AtlasTexture_a1"]`,
+    `atlas = ExtResource("1_k3v2a")`,
+    `region = Rect2(0, 0, 48, 48)`,
+    ``,
+    `[sub_resource type="AtlasTexture" id="AtlasTexture_a2"]`,
+    `atlas = ExtResource("1_k3v2a")`,
+    `region = Rect2(48, 0, 48, 48)`,
+    ``,
+    `[sub_resource type="SpriteFrames" id="SpriteFrames_f1"]`,
+    `animations = [{`,
+    `"frames": [{`,
+    `"duration": 1.0,`,
+    `"texture": SubResource("AtlasTexture_a1")`,
+    `}, {`,
+    `"duration": 2.5,`,
+    `"texture": SubResource("AtlasTexture_a2")`,
+    `}],`,
+    `"loop": false,`,
+    `"name": &"sparks",`,
+    `"speed": 15.0`,
+    `}]`,
+    ``,
+    `[node name="Sparks" type="AnimatedSprite2D"]`,
+    `sprite_frames = SubResource("SpriteFrames_f1")`,
+    `animation = &"sparks"`
+  ].join("\n");
+
+  it("reads dictionary frames with per-frame durations and string ids", () => {
+    const [anim, ...rest] = readSpriteAnimations(parseGodotResource(GODOT4));
+    assert.strictEqual(rest.length, 0);
+    assert.strictEqual(anim.name, "sparks");
+    assert.strictEqual(anim.speed, 15);
+    assert.strictEqual(anim.loop, false);
+    assert.deepStrictEqual(regions(anim), [[0, 0, 48, 48], [48, 0, 48, 48]]);
+    assert.deepStrictEqual(anim.frames.map(f => f.duration), [1, 2.5]);
+    assert.ok(anim.frames.every(f => f.texture === "res://sparks.png"));
+  });
+});
+
+describe("SpriteFrames: broken texture references", () => {
+  const BROKEN = [
+    `[gd_resource type="SpriteFrames" load_steps=4 format=2]`,
+    `[ext_resource type="Texture" id=1]`,
+    `[sub_resource type="AtlasTexture" id=2]`,
+    `atlas = ExtResource( 9 )`,
+    `region = Rect2( 16, 0, 16, 16 )`,
+    `[resource]`,
+    `animations = [ { "frames": [ ExtResource( 1 ), ExtResource( 7 ), SubResource( 2 ), SubResource( 8 ) ], "loop": true, "name": "default", "speed": 5.0 } ]`
+  ].join("\n");
+
+  it("keeps frames whose texture path is missing and skips references that don't resolve", () => {
+    const [anim] = readSpriteAnimations(parseGodotResource(BROKEN));
+    // ExtResource( 1 ) has no path; the atlas points at a missing ext resource but still has a region
+    assert.deepStrictEqual(anim.frames, [
+      { texture: undefined, duration: 1 },
+      { texture: undefined, region: { x: 16, y: 0, w: 16, h: 16 }, duration: 1 }
+    ]);
+  });
+});
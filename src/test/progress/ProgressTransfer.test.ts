@@ -0,0 +1,73 @@
+import * as assert from "assert";
+import type * as vscode from "vscode";
+import { ProgressDocument, exportProgress, importProgress, validateProgress } from "../../progress/ProgressTransfer";
+
+// globalState stand-in backed by a plain object
+class MemoryMemento implements vscode.Memento {
+  readonly values: Record<string, unknown>;
+
+  constructor(values: Record<string, unknown> = {}) {
+    this.values = { ...values };
+  }
+
+  keys(): readonly string[] {
+    return Object.keys(this.values);
+  }
+
+  get<T>(key: string, defaultValue?: T): T {
+    return (key in this.values ? this.values[key] : defaultValue) as T;
+  }
+
+  update(key: string, value: unknown): Thenable<void> {
+    if (value === undefined) delete this.values[key];
+    else this.values[key] = value;
+    return Promise.resolve();
+  }
+}
+
+const CURRENT = {
+  xp: 450,
+  level: 5,
+  xpNextAbs: 600,
+  xpLevelStart: 400,
+  levelCurve: { name: "original", baseXp: 50 },
+  prestige: { count: 1, history: [{ at: 1, level: 30, xp: 9000 }] }
+};
+
+function documentWith(xp: Partial<ProgressDocument["xp"]>, prestige?: ProgressDocument["prestige"]): ProgressDocument {
+  const doc = exportProgress(new MemoryMemento(CURRENT));
+  return { ...doc, xp: { ...doc.xp, ...xp }, prestige: prestige ?? doc.prestige };
+}
+
+describe("ProgressTransfer", () => {
+  it("round-trips the level curve", () => {
+    const doc = exportProgress(new MemoryMemento(CURRENT));
+    assert.deepStrictEqual(doc.xp.curve, CURRENT.levelCurve);
+    assert.deepStrictEqual(validateProgress(doc), []);
+  });
+
+  it("rejects unknown curves, bad custom tables and malformed prestige history", () => {
+    assert.notDeepStrictEqual(validateProgress(documentWith({ curve: { name: "cubic" as never, baseXp: 50 } })), []);
+    assert.notDeepStrictEqual(validateProgress(documentWith({ curve: { name: "custom", baseXp: 50 } })), []);
+    assert.notDeepStrictEqual(validateProgress(documentWith({ curve: { name: "custom", baseXp: 50, table: [300, 100] } })), []);
+    assert.notDeepStrictEqual(validateProgress(documentWith({}, { count: 1, history: [{ at: "yesterday" } as never] })), []);
+    assert.deepStrictEqual(validateProgress(documentWith({ curve: { name: "custom", baseXp: 50, table: [100, 100, 250] } })), []);
+  });
+
+  it("leaves progress untouched when importing a bad curve", async () => {
+    const state = new MemoryMemento(CURRENT);
+    const before = JSON.stringify(state.values);
+    const doc = documentWith({ xp: 99_999, level: 40, curve: { name: "custom", baseXp: 50, table: [] } });
+    await assert.rejects(importProgress(state, doc, "replace"));
+    await assert.rejects(importProgress(state, doc, "merge"));
+    assert.strictEqual(JSON.stringify(state.values), before);
+  });
+
+  it("merges XP and prestige from the same side", async () => {
+    const state = new MemoryMemento(CURRENT);
+    // Higher level but fewer prestiges: the current side is further along
+    await importProgress(state, documentWith({ level: 20, xp: 5_000 }, { count: 0, history: [] }), "merge");
+    assert.strictEqual(state.get("level"), 5);
+    assert.strictEqual(state.get<{ count: number }>("prestige").count, 1);
+  });
+});
@@ -0,0 +1,45 @@
+import * as assert from "assert";
+import { isAsepriteSheet, readAsepriteAnimations } from "../../sprites/Aseprite";
+
+// A 4-frame strip of 16x16 cells in the JSON array layout
+function sheet(frameTags?: unknown[]): unknown {
+  return {
+    frames: [0, 1, 2, 3].map(i => ({ filename: `spark ${i}.aseprite`, frame: { x: i * 16, y: 0, w: 16, h: 16 }, duration: 50 * (i + 1) })),
+    meta: { app: "https://www.aseprite.org/", frameTags }
+  };
+}
+
+const xs = (frames: Array<{ region?: { x: number } }>) => frames.map(f => f.region?.x);
+
+describe("Aseprite", () => {
+  it("recognizes sheets by their app or frame tags", () => {
+    assert.ok(isAsepriteSheet(sheet()));
+    assert.ok(isAsepriteSheet({ frames: {}, meta: { frameTags: [] } }));
+    assert.ok(!isAsepriteSheet({ frames: {}, meta: { app: "https://www.codeandweb.com/texturepacker" } }));
+  });
+
+  it("reads an untagged sheet as one looping default animation timed in milliseconds", () => {
+    const [anim, ...rest] = readAsepriteAnimations(sheet());
+    assert.strictEqual(rest.length, 0);
+    assert.strictEqual(anim.name, "default");
+    assert.strictEqual(anim.speed, 1000);
+    assert.strictEqual(anim.loop, true);
+    assert.deepStrictEqual(anim.frames.map(f => f.duration), [50, 100, 150, 200]);
+  });
+
+  it("orders tag frames by direction and stops looping on a repeat count", () => {
+    const anims = readAsepriteAnimations(sheet([
+      { name: "fwd", from: 0, to: 2, direction: "forward" },
+      { name: "rev", from: 1, to: 3, direction: "reverse", repeat: "1" },
+      { name: "ping", from: 0, to: 3, direction: "pingpong", repeat: "0" }
+    ]));
+    assert.deepStrictEqual(anims.map(a => [a.name, a.loop]), [["fwd", true], ["rev", false], ["ping", true]]);
+    assert.deepStrictEqual(xs(anims[0].frames), [0, 16, 32]);
+    assert.deepStrictEqual(xs(anims[1].frames), [48, 32, 16]);
+    assert.deepStrictEqual(xs(anims[2].frames), [0, 16, 32, 48, 32, 16]);
+  });
+
+  it("rejects tags outside the frame range", () => {
+    assert.throws(() => readAsepriteAnimations(sheet([{ name: "bad", from: 2, to: 4 }])), /"bad" has an invalid from\/to range/);
+  });
+});
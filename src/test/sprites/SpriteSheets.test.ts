@@ -0,0 +1,28 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { readSheetAnimations } from "../../sprites/SpriteSheets";
+
+const ANIMATIONS = path.resolve(__dirname, "../../../media/animations");
+
+const frames = { "a.png": { frame: { x: 0, y: 0, w: 8, h: 8 } } };
+
+describe("SpriteSheets", () => {
+  it("reads .tscn files as Godot resources", () => {
+    const text = fs.readFileSync(path.join(ANIMATIONS, "boom.tscn"), "utf8");
+    const [anim] = readSheetAnimations("effects/BOOM.TSCN", text);
+    assert.strictEqual(anim.frames.length, 7);
+  });
+
+  it("dispatches JSON to the Aseprite or TexturePacker reader", () => {
+    const aseprite = readSheetAnimations("spark.json", JSON.stringify({ frames, meta: { app: "Aseprite 1.3" } }));
+    assert.deepStrictEqual(aseprite.map(a => [a.name, a.speed]), [["default", 1000]]);
+    const packer = readSheetAnimations("spark.json", JSON.stringify({ frames }));
+    assert.deepStrictEqual(packer.map(a => [a.name, a.speed]), [["a", 24]]);
+  });
+
+  it("throws on malformed input", () => {
+    assert.throws(() => readSheetAnimations("spark.json", "{ frames"), SyntaxError);
+    assert.throws(() => readSheetAnimations("spark.tres", "not a resource"));
+  });
+});
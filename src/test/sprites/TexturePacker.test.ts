@@ -0,0 +1,41 @@
+import * as assert from "assert";
+import { DEFAULT_SHEET_FPS, readAtlasFrames, readTexturePackerAnimations } from "../../sprites/TexturePacker";
+
+const frame = (x: number) => ({ frame: { x, y: 0, w: 32, h: 32 }, rotated: false });
+
+describe("TexturePacker", () => {
+  it("reads the hash and array layouts alike", () => {
+    const hash = readAtlasFrames({ frames: { "a.png": frame(0), "b.png": frame(32) } });
+    const array = readAtlasFrames({ frames: [{ filename: "a.png", ...frame(0) }, { filename: "b.png", ...frame(32) }] });
+    assert.deepStrictEqual(hash, array);
+    assert.deepStrictEqual(hash.map(f => f.name), ["a.png", "b.png"]);
+  });
+
+  it("groups numbered frames into sequences sorted by number", () => {
+    const anims = readTexturePackerAnimations({
+      frames: { "boom_10.png": frame(64), "boom_2.png": frame(32), "boom_1.png": frame(0), "blip-1.png": frame(96) }
+    });
+    assert.deepStrictEqual(anims.map(a => a.name), ["boom", "blip"]);
+    assert.deepStrictEqual(anims[0].frames.map(f => f.region?.x), [0, 32, 64]);
+    assert.ok(anims.every(a => a.speed === DEFAULT_SHEET_FPS && !a.loop));
+  });
+
+  it("uses declared animations in their listed order", () => {
+    const [anim] = readTexturePackerAnimations({
+      frames: { "a.png": frame(0), "b.png": frame(32) },
+      animations: { spin: ["b.png", "a.png"] }
+    });
+    assert.strictEqual(anim.name, "spin");
+    assert.deepStrictEqual(anim.frames.map(f => f.region?.x), [32, 0]);
+  });
+
+  it("rejects empty sheets, rotated frames and missing animation frames", () => {
+    assert.throws(() => readAtlasFrames({ frames: {} }), /no "frames"/);
+    assert.throws(() => readAtlasFrames({ frames: { "a.png": { ...frame(0), rotated: true } } }), /rotated/);
+    assert.throws(() => readAtlasFrames({ frames: { "a.png": { frame: { x: 0 } } } }), /numeric x, y, w and h/);
+    assert.throws(
+      () => readTexturePackerAnimations({ frames: { "a.png": frame(0) }, animations: { spin: ["a.png", "z.png"] } }),
+      /"spin" references a missing frame/
+    );
+  });
+});
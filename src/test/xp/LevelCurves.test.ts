@@ -0,0 +1,49 @@
+import * as assert from "assert";
+import { CurveSpec, equivalentXp, levelInfo, levelStep, xpForLevel } from "../../xp/LevelCurves";
+
+const CURVES: CurveSpec[] = [
+  { name: "original", baseXp: 50 },
+  { name: "linear", baseXp: 50 },
+  { name: "quadratic", baseXp: 20 },
+  { name: "exponential", baseXp: 10 },
+  { name: "custom", baseXp: 50, table: [100, 250, 500] }
+];
+
+// Walks the curve a level at a time, the straightforward reading of levelStep
+function walk(xp: number, spec: CurveSpec) {
+  let level = 1;
+  let start = 0;
+  while (xp >= start + levelStep(level, spec)) {
+    start += levelStep(level, spec);
+    level++;
+  }
+  return { level, levelStart: start };
+}
+
+describe("LevelCurves", () => {
+  for (const spec of CURVES) {
+    it(`levelInfo matches a level-by-level walk on the ${spec.name} curve`, () => {
+      for (const xp of [0, 1, 99, 100, 101, 999, 1_000, 12_345, 250_000]) {
+        const info = levelInfo(xp, spec);
+        assert.deepStrictEqual({ level: info.level, levelStart: info.levelStart }, walk(xp, spec), `${xp} XP`);
+        assert.strictEqual(info.levelEnd, info.levelStart + levelStep(info.level, spec));
+        assert.strictEqual(xpForLevel(info.level, spec), info.levelStart);
+      }
+    });
+  }
+
+  it("lands exactly on level boundaries", () => {
+    const spec: CurveSpec = { name: "linear", baseXp: 50 };
+    assert.strictEqual(levelInfo(99, spec).level, 1);
+    assert.strictEqual(levelInfo(100, spec).level, 2);
+    assert.strictEqual(levelInfo(100, spec).current, 0);
+  });
+
+  it("keeps level and in-level progress when switching curves", () => {
+    const to: CurveSpec = { name: "quadratic", baseXp: 30 };
+    const xp = equivalentXp(7, 0.5, to);
+    const info = levelInfo(xp, to);
+    assert.strictEqual(info.level, 7);
+    assert.strictEqual(info.current, Math.floor(info.max * 0.5));
+  });
+});
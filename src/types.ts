@@ -1,3 +1,21 @@
+export type EffectKind = "blip" | "boom" | "newline";
+
+export type SoundKind = "blip" | "boom" | "fireworks";
+
+export type VolumeChannel = "master" | SoundKind;
+
+// How a sound kind is played: the skin's sample or a procedural synth preset
+export type SynthPreset = "chiptune" | "explosion" | "fanfare";
+export type SoundStyle = "sample" | SynthPreset;
+
+// Panel view of the audio mixer; mutedUntil is 0 when not muted
+export type MixerView = { volumes: Record<VolumeChannel, number>; styles: Record<SoundKind, SoundStyle>; mutedUntil: number };
+
+export type ShakeProfileName = "jitter" | "decay" | "rumble" | "impact";
+
+// What scales shake amplitude: nothing, the current typing rate, or the combo count
+export type ShakeIntensity = "fixed" | "typingRate" | "combo";
+
 export type Settings = {
   explosions: boolean;
   blips: boolean;
@@ -10,22 +28,135 @@ export type Settings = {
   shakeAmplitude?: number;
   // @ts-ignore
   shakeDecayMs?: number;
+  shakeProfiles: Record<EffectKind, ShakeProfileName>;
+  shakeIntensity: ShakeIntensity;
   sound: boolean;
   fireworks: boolean;
   baseXp: number;
   enableStatusBar: boolean;
   reducedEffects: boolean;
+  combo: boolean;
+};
+
+export type AchievementView = {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  unlockedAt?: number;
+};
+
+// Finished task, test task or debug session
+export type MilestoneKind = "task" | "test" | "debug" | "save";
+
+export type MilestoneView = {
+  kind: MilestoneKind;
+  name: string;
+  success: boolean;
+  recovered: boolean;
+  xp: number;
+  at: number;
+};
+
+// The running focus session; phaseEndsAt drives the countdown
+export type SessionView = {
+  phase: "focus" | "break";
+  round: number;
+  rounds: number;
+  phaseEndsAt: number;
+  startedAt: number;
+  xp: number;
+  chars: number;
+  deletes: number;
+  bestCombo: number;
+};
+
+export type SessionRecord = {
+  startedAt: number;
+  endedAt: number;
+  focusMinutes: number;
+  rounds: number;
+  completedRounds: number;
+  // False when stopped before the last round
+  completed: boolean;
+  xp: number;
+  chars: number;
+  deletes: number;
+  bestCombo: number;
+};
+
+export type QuestView = {
+  id: string;
+  title: string;
+  period: "daily" | "weekly";
+  progress: number;
+  target: number;
+  xp: number;
+  completedAt?: number;
+  // When the quest rotates out
+  endsAt: number;
+};
+
+export type DailyStats = {
+  date: string; // YYYY-MM-DD, local time
+  chars: number;
+  deletes: number;
+  newlines: number;
+  xp: number;
+  activeMinutes: number;
+};
+
+export type SkillView = {
+  key: string;
+  label: string;
+  xp: number;
+  chars: number;
+  level: number;
+  current: number;
+  max: number;
+};
+
+export type PrestigeTier = {
+  name: string;
+  icon: string; // codicon for the status bar
+  badge: string;
+  palette: string[]; // fireworks colors; empty = rainbow
 };
 
 export type PanelMessageFromExt =
   | { type: "init"; settings: Settings; xp: number; level: number; xpNext: number; xpLevelStart: number; soundUris: { blip: string; boom: string; fireworks: string } }
   | { type: "state"; xp: number; level: number; xpNext: number; xpLevelStart: number }
-  | { type: "blip"; pitch: number; enabled: boolean }
-  | { type: "boom"; enabled: boolean }
-  | { type: "fireworks"; enabled: boolean };
+  // notes are MIDI note numbers played `spread` seconds apart (0 = as a chord); they replace pitch
+  | { type: "blip"; pitch: number; enabled: boolean; notes?: number[]; spread?: number }
+  | { type: "boom"; enabled: boolean; notes?: number[]; spread?: number }
+  | { type: "fireworks"; enabled: boolean }
+  | { type: "combo"; count: number; multiplier: number; milestone?: number }
+  | { type: "achievements"; items: AchievementView[] }
+  | { type: "milestones"; items: MilestoneView[] }
+  | { type: "quests"; items: QuestView[] }
+  // summary is the session that just ended, shown as a card
+  | { type: "session"; active?: SessionView; recent: SessionRecord[]; summary?: SessionRecord }
+  | { type: "stats"; days: DailyStats[] }
+  | { type: "skills"; languages: SkillView[]; workspaces: SkillView[] }
+  | { type: "sounds"; soundUris: { blip: string; boom: string; fireworks: string } }
+  | { type: "prestige"; count: number; multiplier: number; tier: PrestigeTier; canPrestige: boolean; minLevel: number }
+  | ({ type: "mixer" } & MixerView);
+
+// The subset of panel messages an audio sink plays or applies
+export type AudioMessage = Extract<PanelMessageFromExt, { type: "blip" | "boom" | "fireworks" | "mixer" }>;
 
 export type PanelMessageToExt =
   | { type: "ready" }
   | { type: "toggle"; key: keyof Settings; value: boolean }
+  | { type: "setShakeProfile"; kind: EffectKind; profile: ShakeProfileName }
+  | { type: "setShakeIntensity"; intensity: ShakeIntensity }
+  | { type: "previewShake"; kind: EffectKind }
+  | { type: "setVolume"; channel: VolumeChannel; value: number }
+  | { type: "setSoundStyle"; kind: SoundKind; style: SoundStyle }
+  | { type: "mute"; minutes: number }
+  | { type: "unmute" }
+  | { type: "startSession" }
+  | { type: "stopSession" }
   | { type: "resetXp" }
+  | { type: "prestige" }
   | { type: "requestState" };
\ No newline at end of file
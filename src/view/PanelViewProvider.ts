@@ -1,35 +1,67 @@
 import * as vscode from "vscode";
 import { PanelMessageFromExt, PanelMessageToExt, Settings } from "../types";
+import { ResolvedSkin } from "../skins/SkinService";
+import { SHAKE_PROFILES } from "../effects/ShakeProfiles";
+import { SOUND_STYLES } from "../audio/AudioMixer";
 
 export class PanelViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = "ridiculousCoding.panel";
 
   private _view?: vscode.WebviewView;
   private context: vscode.ExtensionContext;
+  private skin: ResolvedSkin;
+  private readonly readyEmitter = new vscode.EventEmitter<void>();
+  // Fires after the webview has (re)loaded and received its init message
+  readonly onDidBecomeReady = this.readyEmitter.event;
+  private readonly disposeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidDispose = this.disposeEmitter.event;
+  private live = false;
 
-  constructor(context: vscode.ExtensionContext) {
+  constructor(context: vscode.ExtensionContext, skin: ResolvedSkin) {
     this.context = context;
+    this.skin = skin;
   }
 
-  resolveWebviewView(webviewView: vscode.WebviewView): void | Thenable<void> {
-    this._view = webviewView;
+  // Serve sounds from the selected skin pack; the webview reloads its buffers
+  setSkin(skin: ResolvedSkin) {
+    this.skin = skin;
+    if (!this._view) return;
+    this._view.webview.options = this.getWebviewOptions();
+    this.post({ type: "sounds", soundUris: this.getSoundUris(this._view.webview) });
+  }
 
-    webviewView.webview.options = {
+  private getWebviewOptions(): vscode.WebviewOptions {
+    return {
       enableScripts: true,
-      localResourceRoots: [this.context.extensionUri]
+      localResourceRoots: [this.context.extensionUri, this.skin.root]
     };
+  }
+
+  private getSoundUris(webview: vscode.Webview) {
+    return {
+      blip: webview.asWebviewUri(this.skin.sounds.blip).toString(),
+      boom: webview.asWebviewUri(this.skin.sounds.boom).toString(),
+      fireworks: webview.asWebviewUri(this.skin.sounds.fireworks).toString()
+    };
+  }
+
+  resolveWebviewView(webviewView: vscode.WebviewView): void | Thenable<void> {
+    this._view = webviewView;
+    this.live = false;
+
+    webviewView.webview.options = this.getWebviewOptions();
+    webviewView.onDidDispose(() => {
+      this._view = undefined;
+      this.live = false;
+      this.disposeEmitter.fire();
+    });
 
   webviewView.webview.html = this.getHtml(webviewView.webview);
 
     webviewView.webview.onDidReceiveMessage((msg: PanelMessageToExt) => {
       switch (msg.type) {
         case "ready":
-          const soundBase = vscode.Uri.joinPath(this.context.extensionUri, 'media', 'sound');
-          const soundUris = {
-            blip: webviewView.webview.asWebviewUri(vscode.Uri.joinPath(soundBase, 'blip.wav')).toString(),
-            boom: webviewView.webview.asWebviewUri(vscode.Uri.joinPath(soundBase, 'boom.wav')).toString(),
-            fireworks: webviewView.webview.asWebviewUri(vscode.Uri.joinPath(soundBase, 'fireworks.wav')).toString()
-          };
+          const soundUris = this.getSoundUris(webviewView.webview);
           this.post({
             type: "init",
             settings: this.getSettings(),
@@ -39,13 +71,47 @@ export class PanelViewProvider implements vscode.WebviewViewProvider {
             xpLevelStart: this.context.globalState.get("xpLevelStart", 0),
             soundUris
           });
+          this.live = true;
+          this.readyEmitter.fire();
           break;
         case "toggle":
           this.updateSetting(msg.key, msg.value);
           break;
+        case "setShakeProfile":
+          void vscode.workspace.getConfiguration("ridiculousCoding").update(`shakeProfile.${msg.kind}`, msg.profile, true);
+          break;
+        case "setShakeIntensity":
+          void vscode.workspace.getConfiguration("ridiculousCoding").update("shakeIntensity", msg.intensity, true);
+          break;
+        case "setVolume": {
+          const level = Math.round(Math.max(0, Math.min(1, msg.value)) * 100) / 100;
+          void vscode.workspace.getConfiguration("ridiculousCoding").update(`volume.${msg.channel}`, level, true);
+          break;
+        }
+        case "setSoundStyle":
+          void vscode.workspace.getConfiguration("ridiculousCoding").update(`soundStyle.${msg.kind}`, msg.style, true);
+          break;
+        case "mute":
+          vscode.commands.executeCommand("ridiculousCoding.muteFor", msg.minutes);
+          break;
+        case "unmute":
+          vscode.commands.executeCommand("ridiculousCoding.unmute");
+          break;
+        case "startSession":
+          vscode.commands.executeCommand("ridiculousCoding.startSession");
+          break;
+        case "stopSession":
+          vscode.commands.executeCommand("ridiculousCoding.stopSession");
+          break;
+        case "previewShake":
+          vscode.commands.executeCommand("ridiculousCoding.previewShake", msg.kind);
+          break;
         case "resetXp":
           vscode.commands.executeCommand("ridiculousCoding.resetXp");
           break;
+        case "prestige":
+          vscode.commands.executeCommand("ridiculousCoding.prestige");
+          break;
         case "requestState":
           this.post({
             type: "state",
@@ -59,6 +125,11 @@ export class PanelViewProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  // The webview has loaded and can receive messages
+  get ready(): boolean {
+    return this.live;
+  }
+
   post(message: PanelMessageFromExt) {
     this._view?.webview.postMessage(message);
   }
@@ -76,11 +147,18 @@ export class PanelViewProvider implements vscode.WebviewViewProvider {
       shake: cfg.get("shake", true),
       shakeAmplitude: cfg.get("shakeAmplitude", 6),
       shakeDecayMs: cfg.get("shakeDecayMs", 120),
+      shakeProfiles: {
+        blip: cfg.get("shakeProfile.blip", "decay"),
+        boom: cfg.get("shakeProfile.boom", "decay"),
+        newline: cfg.get("shakeProfile.newline", "impact")
+      },
+      shakeIntensity: cfg.get("shakeIntensity", "fixed"),
       sound: cfg.get("sound", true),
       fireworks: cfg.get("fireworks", true),
       baseXp: cfg.get("leveling.baseXp", 50),
       enableStatusBar: cfg.get("enableStatusBar", true),
-      reducedEffects: cfg.get("reducedEffects", false)
+      reducedEffects: cfg.get("reducedEffects", false),
+      combo: cfg.get("combo.enabled", true)
     };
   }
 
@@ -96,7 +174,8 @@ export class PanelViewProvider implements vscode.WebviewViewProvider {
       fireworks: "fireworks",
       baseXp: "leveling.baseXp",
       enableStatusBar: "enableStatusBar",
-      reducedEffects: "reducedEffects"
+      reducedEffects: "reducedEffects",
+      combo: "combo.enabled"
     };
     const configKey = map[key];
     if (!configKey) return;
@@ -108,6 +187,12 @@ export class PanelViewProvider implements vscode.WebviewViewProvider {
     const cssUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this.context.extensionUri, "webview", "panel.css")
     );
+    const synthUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.context.extensionUri, "webview", "synth.js")
+    );
+    const audioUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.context.extensionUri, "webview", "audio.js")
+    );
     const jsUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this.context.extensionUri, "webview", "panel.js")
     );
@@ -145,6 +230,37 @@ export class PanelViewProvider implements vscode.WebviewViewProvider {
         <label class="toggle-pill"><input id="sound" type="checkbox"><span>Sound</span></label>
         <label class="toggle-pill"><input id="fireworks" type="checkbox"><span>Fireworks</span></label>
         <label class="toggle-pill"><input id="reducedEffects" type="checkbox"><span>Reduced Effects</span></label>
+        <label class="toggle-pill"><input id="combo" type="checkbox"><span>Combo</span></label>
+      </div>
+      <div class="shake-profiles">
+        ${(["blip", "boom", "newline"] as const).map(kind => `
+        <div class="shake-row">
+          <label for="shakeProfile-${kind}">${kind[0].toUpperCase() + kind.slice(1)} shake</label>
+          <select id="shakeProfile-${kind}" data-kind="${kind}">${SHAKE_PROFILES.map(p => `<option value="${p}">${p}</option>`).join("")}</select>
+          <button class="btn ghost small" data-preview="${kind}" title="Preview in the active editor">▶</button>
+        </div>`).join("")}
+        <div class="shake-row">
+          <label for="shakeIntensity">Intensity</label>
+          <select id="shakeIntensity">
+            <option value="fixed">fixed</option>
+            <option value="typingRate">typing rate</option>
+            <option value="combo">combo</option>
+          </select>
+        </div>
+      </div>
+      <div class="mixer">
+        ${(["master", "blip", "boom", "fireworks"] as const).map(ch => `
+        <div class="mixer-row">
+          <label for="volume-${ch}">${ch[0].toUpperCase() + ch.slice(1)}</label>
+          <input id="volume-${ch}" data-channel="${ch}" type="range" min="0" max="100" step="1">
+          <span class="muted" data-volume-label="${ch}">0%</span>
+          ${ch === "master" ? "<span></span>" : `<select data-sound-style="${ch}" title="Sample or synth preset">${SOUND_STYLES.map(st => `<option value="${st}">${st}</option>`).join("")}</select>`}
+        </div>`).join("")}
+        <div class="row">
+          <span id="muteLabel" class="muted"></span>
+          <button id="muteBtn" class="btn ghost small" title="Mute sounds for 15 minutes">🔇 Mute 15 min</button>
+          <button id="unmuteBtn" class="btn ghost small hidden">🔊 Unmute</button>
+        </div>
       </div>
     </section>
 
@@ -152,17 +268,72 @@ export class PanelViewProvider implements vscode.WebviewViewProvider {
       <h2 class="card-title">Progress</h2>
       <div class="labels">
         <div id="levelLabel" class="badge">Level: 1</div>
+        <div id="prestigeBadge" class="badge prestige hidden"></div>
         <div id="xpLabel" class="muted">XP: 0 / 100</div>
       </div>
       <div class="bar"><div id="barInner"></div></div>
+      <div class="combo-row">
+        <div id="comboLabel" class="combo-count">Combo x0</div>
+        <div id="comboMultiplier" class="muted">1.0× XP</div>
+      </div>
+      <div id="comboCallout" class="combo-callout hidden"></div>
       <div class="row">
         <button id="resetBtn" class="btn">Reset</button>
+        <button id="prestigeBtn" class="btn ghost" disabled>Prestige</button>
         <button id="testFireworks" class="btn ghost" title="Test fireworks">🎆 Test Fireworks</button>
       </div>
       <canvas id="fwCanvas" class="hidden"></canvas>
     </section>
+
+    <section class="card">
+      <h2 class="card-title">Skills</h2>
+      <div id="languageSkills" class="skills"></div>
+      <h3 class="sub-title">Workspaces</h3>
+      <div id="workspaceSkills" class="skills"></div>
+    </section>
+
+    <section class="card">
+      <h2 class="card-title">Activity</h2>
+      <div class="row range-row">
+        <button id="range7" class="btn ghost active" data-days="7">7 days</button>
+        <button id="range30" class="btn ghost" data-days="30">30 days</button>
+      </div>
+      <div id="chart" class="chart"></div>
+      <div id="chartSummary" class="muted"></div>
+      <h3 class="sub-title">Last year</h3>
+      <div id="heatmap" class="heatmap"></div>
+    </section>
+
+    <section class="card">
+      <h2 class="card-title">Quests</h2>
+      <div id="quests" class="quests"></div>
+    </section>
+
+    <section class="card">
+      <h2 class="card-title">Focus Session</h2>
+      <div class="session-row">
+        <span id="sessionStatus" class="muted">No session running</span>
+        <button id="sessionBtn" class="btn ghost small">▶ Start</button>
+      </div>
+      <div id="sessionLive" class="muted hidden"></div>
+      <div id="sessionSummary" class="session-summary hidden"></div>
+      <h3 class="sub-title">Recent sessions</h3>
+      <div id="sessions" class="sessions"></div>
+    </section>
+
+    <section class="card">
+      <h2 class="card-title">Milestones</h2>
+      <div id="milestones" class="milestones"></div>
+    </section>
+
+    <section class="card">
+      <h2 class="card-title">Achievements <span id="achievementCount" class="muted"></span></h2>
+      <div id="achievements" class="achievements"></div>
+    </section>
   </div>
 
+  <script nonce="${nonce}" src="${synthUri}"></script>
+  <script nonce="${nonce}" src="${audioUri}"></script>
   <script nonce="${nonce}" src="${jsUri}"></script>
 </body>
 </html>`;
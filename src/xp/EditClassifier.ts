@@ -0,0 +1,111 @@
+import * as vscode from "vscode";
+
+export type EditKind =
+  | "typing"
+  | "delete"
+  | "paste"
+  | "completion"
+  | "snippet"
+  | "format"
+  | "refactor"
+  | "undo"
+  | "redo"
+  | "bulk";
+
+export const EDIT_KINDS: EditKind[] = [
+  "typing", "delete", "paste", "completion", "snippet", "format", "refactor", "undo", "redo", "bulk"
+];
+
+const AUTO_PAIRS = new Set(["()", "[]", "{}", "<>", "\"\"", "''", "``"]);
+const WORD_CHAR = /[\p{L}\p{N}_$]/u;
+const IDENTIFIER = /^[\p{L}\p{N}_$]+$/u;
+// Completions are usually accepted while a word is still being typed
+const COMPLETION_WINDOW_MS = 2000;
+// A completion inserts one identifier or member access, optionally with call parentheses
+const COMPLETION_TEXT = /^[\p{L}\p{N}_$.]+(\(\))?$/u;
+const MAX_COMPLETION_LENGTH = 60;
+// Longer multi-line inserts are pastes even right after typing
+const MAX_SNIPPET_LENGTH = 1000;
+
+// Tells human keystrokes apart from machine-made edits for one change event
+export class EditClassifier {
+  private lastKeystrokeAt = 0;
+
+  private getConfig() {
+    const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+    const bulkThreshold = Math.max(1, cfg.get<number>("edits.bulkThreshold", 200));
+    const earnXp = cfg.get<EditKind[]>("edits.earnXp", ["typing", "delete", "completion"]);
+    const triggerEffects = cfg.get<EditKind[]>("edits.triggerEffects", [
+      "typing", "delete", "completion", "snippet", "paste", "undo", "redo"
+    ]);
+    return { bulkThreshold, earnXp, triggerEffects };
+  }
+
+  earnsXp(kind: EditKind): boolean {
+    return this.getConfig().earnXp.includes(kind);
+  }
+
+  triggersEffects(kind: EditKind): boolean {
+    return this.getConfig().triggerEffects.includes(kind);
+  }
+
+  classify(evt: vscode.TextDocumentChangeEvent, selectionCount: number): EditKind {
+    const kind = this.classifyInternal(evt, selectionCount);
+    if (kind === "typing" || kind === "delete") this.lastKeystrokeAt = Date.now();
+    return kind;
+  }
+
+  private classifyInternal(evt: vscode.TextDocumentChangeEvent, selectionCount: number): EditKind {
+    if (evt.reason === vscode.TextDocumentChangeReason.Undo) return "undo";
+    if (evt.reason === vscode.TextDocumentChangeReason.Redo) return "redo";
+
+    const changes = evt.contentChanges;
+    const { bulkThreshold } = this.getConfig();
+
+    if (changes.length > 1) {
+      // One small change per cursor is multi-cursor typing
+      if (changes.length <= selectionCount && changes.every(c => this.isKeystroke(c.text, c.rangeLength))) {
+        return changes.every(c => !c.text.length) ? "delete" : "typing";
+      }
+      // One larger insert per cursor is a multi-cursor paste
+      if (changes.length <= selectionCount && changes.some(c => c.text.length)) return "paste";
+      // The same identifier written in many places is a rename
+      const first = changes[0].text;
+      if (IDENTIFIER.test(first) && changes.every(c => c.text === first)) return "refactor";
+      return "format";
+    }
+
+    const change = changes[0];
+    const text = change.text;
+    if (!text.length) {
+      return change.rangeLength > bulkThreshold ? "bulk" : "delete";
+    }
+    if (this.isKeystroke(text, change.rangeLength)) return "typing";
+    if (!text.trim().length) return "format";
+
+    const start = change.range.start;
+    const precedingChar = start.character > 0
+      ? evt.document.getText(new vscode.Range(start.translate(0, -1), start))
+      : "";
+    const continuesWord = change.rangeLength > 0 || (precedingChar !== "" && WORD_CHAR.test(precedingChar));
+    const recentlyTyped = Date.now() - this.lastKeystrokeAt <= COMPLETION_WINDOW_MS;
+    if (continuesWord && recentlyTyped) {
+      if (text.includes("\n")) {
+        if (text.length <= MAX_SNIPPET_LENGTH) return "snippet";
+      } else if (text.length <= MAX_COMPLETION_LENGTH && COMPLETION_TEXT.test(text)) {
+        return "completion";
+      }
+    }
+    if (text.includes("\n") || text.length > 2) return "paste";
+    return "typing";
+  }
+
+  // A single key press: one character, an auto-closed pair, or Enter/Tab with indentation
+  private isKeystroke(text: string, rangeLength: number): boolean {
+    if (!text.length) return rangeLength > 0;
+    if ([...text].length === 1) return true;
+    if (AUTO_PAIRS.has(text)) return true;
+    // Enter between brackets inserts two indented newlines in one change
+    return /^[ \t]*(\r?\n[ \t]*){0,2}$/.test(text) && text.length <= 80;
+  }
+}
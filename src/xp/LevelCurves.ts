@@ -0,0 +1,102 @@
+export type CurveName = "original" | "linear" | "quadratic" | "exponential" | "custom";
+
+export const CURVE_NAMES: CurveName[] = ["original", "linear", "quadratic", "exponential", "custom"];
+
+export type CurveSpec = {
+  name: CurveName;
+  baseXp: number;
+  // XP needed for each level-up (level 1 → 2 first); the last entry repeats for higher levels
+  table?: number[];
+};
+
+export type LevelInfo = {
+  level: number;
+  levelStart: number; // total XP at which this level began
+  levelEnd: number; // total XP needed for the next level
+  current: number;
+  max: number;
+};
+
+const EXPONENTIAL_GROWTH = 1.15;
+// Guards against runaway loops with huge totals on very flat curves
+const MAX_LEVEL = 100_000;
+
+// XP needed to go from `level` to `level + 1`
+export function levelStep(level: number, spec: CurveSpec): number {
+  const b = Math.max(1, spec.baseXp);
+  let step: number;
+  switch (spec.name) {
+    case "linear":
+      step = 2 * b;
+      break;
+    case "quadratic":
+      step = b * level;
+      break;
+    case "exponential":
+      step = Math.round(2 * b * Math.pow(EXPONENTIAL_GROWTH, level - 1));
+      break;
+    case "custom": {
+      const table = spec.table?.filter(n => n > 0) ?? [];
+      step = table.length ? table[Math.min(level - 1, table.length - 1)] : 2 * b;
+      break;
+    }
+    case "original":
+    default:
+      // Godot plugin: start at 2 * BASE_XP, then round(BASE_XP * level / 10) * 10 per level
+      step = level === 1 ? 2 * b : Math.round((b * level) / 10) * 10;
+      break;
+  }
+  return Math.max(1, step);
+}
+
+// Total XP at which each level starts (index 0 is level 1), per curve. Grown on demand so
+// levelInfo is a binary search rather than a walk from level 1 on every XP award.
+const levelStarts = new Map<string, number[]>();
+
+function startsFor(spec: CurveSpec, minLevel: number, minXp: number): number[] {
+  const key = JSON.stringify([spec.name, spec.baseXp, spec.name === "custom" ? spec.table ?? [] : []]);
+  let starts = levelStarts.get(key);
+  if (!starts) {
+    starts = [0];
+    levelStarts.set(key, starts);
+  }
+  while (starts.length < MAX_LEVEL && (starts.length < minLevel || starts[starts.length - 1] <= minXp)) {
+    starts.push(starts[starts.length - 1] + levelStep(starts.length, spec));
+  }
+  return starts;
+}
+
+// Total XP at which `level` starts (level 1 starts at 0)
+export function xpForLevel(level: number, spec: CurveSpec): number {
+  const starts = startsFor(spec, level, -1);
+  return starts[Math.min(Math.max(1, level), starts.length) - 1];
+}
+
+export function levelInfo(totalXp: number, spec: CurveSpec): LevelInfo {
+  const xp = Math.max(0, totalXp);
+  const starts = startsFor(spec, 1, xp);
+  // Last level whose start is at or below `xp`
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (starts[mid] <= xp) lo = mid;
+    else hi = mid - 1;
+  }
+  const level = lo + 1;
+  const start = starts[lo];
+  const step = levelStep(level, spec);
+  return { level, levelStart: start, levelEnd: start + step, current: xp - start, max: step };
+}
+
+// Total XP on `spec` that sits at the same level and fraction of that level
+export function equivalentXp(level: number, fraction: number, spec: CurveSpec): number {
+  const f = Math.max(0, Math.min(0.999, fraction));
+  return xpForLevel(level, spec) + Math.floor(levelStep(level, spec) * f);
+}
+
+export function sameCurve(a: CurveSpec, b: CurveSpec): boolean {
+  if (a.name !== b.name || a.baseXp !== b.baseXp) return false;
+  if (a.name !== "custom") return true;
+  return JSON.stringify(a.table ?? []) === JSON.stringify(b.table ?? []);
+}
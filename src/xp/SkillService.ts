@@ -0,0 +1,86 @@
+import * as vscode from "vscode";
+import { SkillView } from "../types";
+import { CurveSpec, levelInfo } from "./LevelCurves";
+import { StateWriter } from "../state/StateWriter";
+
+type Bucket = {
+  label: string;
+  xp: number;
+  chars: number;
+  deletes: number;
+  newlines: number;
+};
+
+export type SkillDelta = {
+  xp?: number;
+  chars?: number;
+  deletes?: number;
+  newlines?: number;
+};
+
+type BucketKind = "languages" | "workspaces";
+
+// XP and activity broken down by document language and by workspace folder
+export class SkillService {
+  private readonly context: vscode.ExtensionContext;
+  private readonly writer: StateWriter;
+  private curve: CurveSpec;
+  private buckets: Record<BucketKind, Record<string, Bucket>> = { languages: {}, workspaces: {} };
+
+  constructor(context: vscode.ExtensionContext, curve: CurveSpec, writer: StateWriter) {
+    this.context = context;
+    this.writer = writer;
+    this.curve = curve;
+    this.reload();
+  }
+
+  reload() {
+    this.writer.discard("skills.languages", "skills.workspaces");
+    this.buckets = {
+      languages: this.context.globalState.get<Record<string, Bucket>>("skills.languages", {}),
+      workspaces: this.context.globalState.get<Record<string, Bucket>>("skills.workspaces", {})
+    };
+  }
+
+  // Bucket levels are derived from totals, so switching curves needs no migration
+  setCurve(curve: CurveSpec) {
+    this.curve = curve;
+  }
+
+  record(document: vscode.TextDocument, delta: SkillDelta) {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const targets: Array<[BucketKind, string, string]> = [
+      ["languages", document.languageId, document.languageId],
+      ["workspaces", folder ? folder.uri.toString() : "", folder ? folder.name : "(no folder)"]
+    ];
+    for (const [kind, key, label] of targets) {
+      const bucket = (this.buckets[kind][key] ??= { label, xp: 0, chars: 0, deletes: 0, newlines: 0 });
+      bucket.label = label;
+      bucket.xp += delta.xp ?? 0;
+      bucket.chars += delta.chars ?? 0;
+      bucket.deletes += delta.deletes ?? 0;
+      bucket.newlines += delta.newlines ?? 0;
+    }
+    this.persist();
+  }
+
+  // Buckets of one kind, highest XP first
+  list(kind: BucketKind): SkillView[] {
+    return Object.entries(this.buckets[kind])
+      .map(([key, b]) => {
+        const { level, current, max } = levelInfo(b.xp, this.curve);
+        return { key, label: b.label, xp: b.xp, chars: b.chars, level, current, max };
+      })
+      .sort((a, b) => b.xp - a.xp);
+  }
+
+  reset() {
+    this.buckets = { languages: {}, workspaces: {} };
+    this.persist();
+  }
+
+  private persist() {
+    this.writer.schedule("skills.languages", () => this.buckets.languages);
+    this.writer.schedule("skills.workspaces", () => this.buckets.workspaces);
+  }
+}
@@ -0,0 +1,121 @@
+import * as vscode from "vscode";
+
+export type XpEventKind = "char" | "newline" | "delete" | "word" | "save" | "create" | "task" | "test" | "debug" | "recovery" | "fix";
+
+export const XP_EVENT_KINDS: XpEventKind[] = ["char", "newline", "delete", "word", "save", "create", "task", "test", "debug", "recovery", "fix"];
+
+type Rule = { amount: number; capPerMinute: number };
+
+// Defaults mirror the contributed configuration in package.json
+const DEFAULT_RULES: Record<XpEventKind, Rule> = {
+  char: { amount: 1, capPerMinute: 600 },
+  newline: { amount: 2, capPerMinute: 120 },
+  delete: { amount: 0.5, capPerMinute: 300 },
+  word: { amount: 2, capPerMinute: 120 },
+  save: { amount: 5, capPerMinute: 10 },
+  create: { amount: 10, capPerMinute: 10 },
+  task: { amount: 15, capPerMinute: 60 },
+  test: { amount: 20, capPerMinute: 60 },
+  debug: { amount: 5, capPerMinute: 20 },
+  // Bonus when a task passes after failing
+  recovery: { amount: 50, capPerMinute: 100 },
+  // Per error (or warning) that disappears after an edit
+  fix: { amount: 10, capPerMinute: 100 }
+};
+
+const WINDOW_MS = 60_000;
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+export type EditCounts = Partial<Record<XpEventKind, number>>;
+
+// Break a single content change into countable XP event kinds
+export function countEdit(insertedText: string, removedChars: number, precedingChar: string): EditCounts {
+  const counts: EditCounts = {};
+  if (!insertedText.length) {
+    if (removedChars > 0) counts.delete = removedChars;
+    return counts;
+  }
+  const newlines = (insertedText.match(/\n/g) ?? []).length;
+  const chars = insertedText.replace(/\r?\n/g, "").length;
+  if (chars) counts.char = chars;
+  if (newlines) counts.newline = newlines;
+  // A word is completed when a non-word character follows a word character
+  let prev = precedingChar;
+  let words = 0;
+  for (const ch of insertedText) {
+    if (prev && WORD_CHAR.test(prev) && !WORD_CHAR.test(ch)) words++;
+    prev = ch;
+  }
+  if (words) counts.word = words;
+  return counts;
+}
+
+// Sum the event kinds of every change in one document event (one per cursor with multi-cursor edits)
+export function countChanges(document: vscode.TextDocument, changes: readonly vscode.TextDocumentContentChangeEvent[]): EditCounts {
+  const total: EditCounts = {};
+  for (const change of changes) {
+    const start = change.range.start;
+    const precedingChar = start.character > 0
+      ? document.getText(new vscode.Range(start.translate(0, -1), start))
+      : "";
+    const counts = countEdit(change.text ?? "", change.rangeLength ?? 0, precedingChar);
+    for (const kind of XP_EVENT_KINDS) {
+      const n = counts[kind];
+      if (n) total[kind] = (total[kind] ?? 0) + n;
+    }
+  }
+  return total;
+}
+
+export class XPRules {
+  private windows = new Map<XpEventKind, { startedAt: number; awarded: number }>();
+  // Characters typed this session that haven't been deleted for XP yet. Deletes only pay up to
+  // this, so deleting existing code (or the same block over and over) doesn't farm XP.
+  private deletable = 0;
+
+  private getRule(kind: XpEventKind): Rule {
+    const cfg = vscode.workspace.getConfiguration("ridiculousCoding");
+    const def = DEFAULT_RULES[kind];
+    const amount = Math.max(0, cfg.get<number>(`xp.${kind}`, def.amount));
+    const capPerMinute = Math.max(0, cfg.get<number>(`xp.capPerMinute.${kind}`, def.capPerMinute));
+    return { amount, capPerMinute };
+  }
+
+  // XP for `count` occurrences of `kind`, clipped to what is left of this minute's cap (0 = uncapped)
+  award(kind: XpEventKind, count = 1): number {
+    const rule = this.getRule(kind);
+    const wanted = rule.amount * Math.max(0, count);
+    if (wanted <= 0) return 0;
+    if (rule.capPerMinute <= 0) return wanted;
+
+    const now = Date.now();
+    let win = this.windows.get(kind);
+    if (!win || now - win.startedAt >= WINDOW_MS) {
+      win = { startedAt: now, awarded: 0 };
+      this.windows.set(kind, win);
+    }
+    const granted = Math.min(wanted, Math.max(0, rule.capPerMinute - win.awarded));
+    win.awarded += granted;
+    return granted;
+  }
+
+  awardAll(counts: EditCounts): number {
+    this.deletable += counts.char ?? 0;
+    let total = 0;
+    for (const kind of XP_EVENT_KINDS) {
+      let n = counts[kind];
+      if (kind === "delete" && n) {
+        n = Math.min(n, this.deletable);
+        this.deletable -= n;
+      }
+      if (n) total += this.award(kind, n);
+    }
+    return total;
+  }
+
+  reset() {
+    this.windows.clear();
+    this.deletable = 0;
+  }
+}
@@ -1,81 +1,97 @@
 import * as vscode from "vscode";
+import { CurveSpec, equivalentXp, levelInfo, sameCurve } from "./LevelCurves";
+import { StateWriter } from "../state/StateWriter";
 
 export class XPService {
   private readonly context: vscode.ExtensionContext;
-  private baseXp: number;
-  xp: number;
-  level: number;
-  xpNextAbs: number;
+  private readonly writer: StateWriter;
+  private curve: CurveSpec;
+  xp!: number;
+  level!: number;
+  xpNextAbs!: number;
+  private levelStart = 0;
+  // Fractional XP left over from multiplied awards, carried into the next one
+  private xpRemainder = 0;
 
-  constructor(context: vscode.ExtensionContext, baseXp: number) {
+  constructor(context: vscode.ExtensionContext, curve: CurveSpec, writer: StateWriter) {
     this.context = context;
-    this.baseXp = baseXp;
-    this.xp = context.globalState.get<number>("xp", 0);
-    this.level = context.globalState.get<number>("level", 1);
-    // Initial absolute target as per original: 2 * BASE_XP
-    const storedNext = context.globalState.get<number>("xpNextAbs");
-    this.xpNextAbs = storedNext ?? 2 * this.baseXp;
-    // Ensure monotonic if base changed
-    if (this.xpNextAbs < this.xp) {
-      this.xpNextAbs = this.xp + Math.round((this.baseXp * this.level) / 10) * 10;
-    }
+    this.writer = writer;
+    this.curve = curve;
+    this.reload();
   }
 
-  get progress(): { current: number; max: number } {
-    const max = this.xpNextAbs - this.xpStartOfLevelInternal();
-    return { current: this.xp - this.xpStartOfLevelInternal(), max };
+  // Re-read persisted state, e.g. after progress was imported
+  reload() {
+    this.writer.discard("xp", "level", "xpNextAbs", "xpLevelStart", "levelCurve");
+    const state = this.context.globalState;
+    this.xp = state.get<number>("xp", 0);
+    this.level = state.get<number>("level", 1);
+    this.xpRemainder = 0;
+    const storedCurve = state.get<CurveSpec>("levelCurve");
+    // Stored level is the source of truth when the curve changed or the state predates curves
+    if (!storedCurve || !sameCurve(storedCurve, this.curve) || levelInfo(this.xp, this.curve).level !== this.level) {
+      const start = state.get<number>("xpLevelStart", 0);
+      const next = state.get<number>("xpNextAbs", start + 1);
+      this.migrate(this.level, (this.xp - start) / Math.max(1, next - start));
+    } else {
+      this.applyLevelInfo();
+    }
   }
 
-  private xpStartOfLevelInternal(): number {
-    // We store absolute xp; to derive start-of-level, deduce from xpNextAbs and base formula.
-    // Simplify: track last level-up xp in globalState too; fallback to 0 for level 1.
-    return this.context.globalState.get<number>("xpLevelStart", 0);
+  get progress(): { current: number; max: number } {
+    return { current: this.xp - this.levelStart, max: this.xpNextAbs - this.levelStart };
   }
 
   get xpStartOfLevel(): number {
-    return this.xpStartOfLevelInternal();
+    return this.levelStart;
   }
 
-  private setXpStartOfLevel(v: number) {
-    void this.context.globalState.update("xpLevelStart", v);
-  }
-
-  addXp(n: number): boolean {
-    this.xp += n;
-    let leveledUp = false;
-    if (this.xp >= this.xpNextAbs) {
-      this.level += 1;
-      this.setXpStartOfLevel(this.xp);
-      // xpNext = xp + round(BASE_XP * level / 10.0) * 10
-      this.xpNextAbs = this.xp + Math.round((this.baseXp * this.level) / 10) * 10;
-      leveledUp = true;
-    }
+  addXp(n: number, multiplier = 1): boolean {
+    const gained = n * Math.max(0, multiplier) + this.xpRemainder;
+    const whole = Math.floor(gained);
+    this.xpRemainder = gained - whole;
+    this.xp += whole;
+    const before = this.level;
+    this.applyLevelInfo();
     this.persist();
-    return leveledUp;
+    return this.level > before;
   }
 
   reset(): void {
-    this.level = 1;
     this.xp = 0;
-    this.setXpStartOfLevel(0);
-    this.xpNextAbs = 2 * this.baseXp;
+    this.xpRemainder = 0;
+    this.applyLevelInfo();
     this.persist();
   }
 
-  setBaseXp(base: number) {
-    this.baseXp = base;
-    // Recompute next target relative to current xp and level
-    if (this.level <= 1 && this.xp === 0) {
-      this.xpNextAbs = 2 * this.baseXp;
-    } else if (this.xp >= this.xpNextAbs) {
-      this.xpNextAbs = this.xp + Math.round((this.baseXp * this.level) / 10) * 10;
-    }
-    this.persist();
+  // Switch curve or base XP without losing or jumping levels
+  setCurve(curve: CurveSpec) {
+    if (sameCurve(curve, this.curve)) return;
+    const fraction = this.progress.current / Math.max(1, this.progress.max);
+    this.curve = curve;
+    this.migrate(this.level, fraction);
+  }
+
+  // Place total XP at the same level and in-level progress on the current curve
+  private migrate(level: number, fraction: number) {
+    this.xp = equivalentXp(Math.max(1, level), fraction, this.curve);
+    this.applyLevelInfo();
+    this.persist(true);
+  }
+
+  private applyLevelInfo() {
+    const info = levelInfo(this.xp, this.curve);
+    this.level = info.level;
+    this.levelStart = info.levelStart;
+    this.xpNextAbs = info.levelEnd;
   }
 
-  private persist() {
-    void this.context.globalState.update("xp", this.xp);
-    void this.context.globalState.update("level", this.level);
-    void this.context.globalState.update("xpNextAbs", this.xpNextAbs);
+  // The curve is only written when it changes, not with every award
+  private persist(curveChanged = false) {
+    this.writer.schedule("xp", () => this.xp);
+    this.writer.schedule("level", () => this.level);
+    this.writer.schedule("xpNextAbs", () => this.xpNextAbs);
+    this.writer.schedule("xpLevelStart", () => this.levelStart);
+    if (curveChanged) this.writer.schedule("levelCurve", () => this.curve);
   }
-}
\ No newline at end of file
+}
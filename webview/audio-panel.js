@@ -0,0 +1,8 @@
+// Fallback audio panel: forwards sound messages to the shared audio engine
+(function () {
+  const vscode = acquireVsCodeApi();
+
+  window.addEventListener("message", e => window.rcAudio.handle(e.data));
+
+  vscode.postMessage({ type: "ready" });
+})();
@@ -0,0 +1,196 @@
+// Audio engine shared by the sidebar panel and the fallback audio panel.
+// Exposes window.rcAudio; handle(msg) plays blip/boom/fireworks and applies sounds/mixer messages.
+(function () {
+  // WebAudio engine using decoded WAV buffers
+  const AudioCtx = window.AudioContext || window.webkitAudioContext;
+  let actx = null;
+  const buffers = { blip: null, boom: null, fireworks: null };
+  let audioUnlocked = false;
+  // Sounds requested before the audio context could start; replayed on unlock if still fresh
+  const MAX_PENDING = 16;
+  const PENDING_TTL_MS = 3000;
+  let pending = [];
+  async function fetchArrayBuffer(url) {
+    const res = await fetch(url);
+    return await res.arrayBuffer();
+  }
+  async function preloadSounds(uris) {
+    try {
+      actx = actx || new AudioCtx();
+      const entries = Object.entries(uris);
+      for (const [k, u] of entries) {
+        const ab = await fetchArrayBuffer(u);
+        buffers[k] = await actx.decodeAudioData(ab);
+      }
+    } catch {}
+  }
+  // Tried on the first sound as well as on a click: webviews that allow autoplay start right
+  // away, others wait for a click on the notice
+  async function unlockAudio() {
+    if (audioUnlocked) return;
+    try {
+      actx = actx || new AudioCtx();
+      if (actx.state === 'suspended') await actx.resume();
+      if (audioUnlocked || actx.state !== 'running') return;
+      audioUnlocked = true;
+      const n = document.getElementById('soundNotice');
+      if (n) n.remove();
+      const now = Date.now();
+      const fresh = pending.filter(p => now - p.at <= PENDING_TTL_MS);
+      pending = [];
+      for (const p of fresh) playSound(p.kind, p.opts);
+    } catch {}
+  }
+  function waitForUnlock(kind, opts) {
+    if (pending.length >= MAX_PENDING) pending.shift();
+    pending.push({ kind, opts, at: Date.now() });
+    const n = document.getElementById('soundNotice');
+    if (n) {
+      n.textContent = '🔇 Sounds are waiting: click here to enable sound';
+      n.classList.add('waiting');
+    }
+    unlockAudio();
+  }
+  // Mixer: one gain bus per sound kind into a master bus and a limiter so stacked sounds don't clip
+  const MAX_VOICES = 6;
+  const volumes = { master: 0.5, blip: 1, boom: 1, fireworks: 1 };
+  const voices = { blip: [], boom: [], fireworks: [] };
+  let mixer = null;
+  let mutedUntil = 0;
+  const soundStyles = { blip: 'sample', boom: 'sample', fireworks: 'sample' };
+  function ensureMixer() {
+    if (mixer || !actx) return mixer;
+    const limiter = actx.createDynamicsCompressor();
+    limiter.threshold.value = -6;
+    limiter.knee.value = 6;
+    limiter.ratio.value = 12;
+    limiter.attack.value = 0.003;
+    limiter.release.value = 0.1;
+    limiter.connect(actx.destination);
+    const master = actx.createGain();
+    master.connect(limiter);
+    const buses = {};
+    for (const kind of Object.keys(voices)) {
+      buses[kind] = actx.createGain();
+      buses[kind].connect(master);
+    }
+    mixer = { master, buses };
+    applyVolumes();
+    return mixer;
+  }
+  function applyVolumes() {
+    if (!mixer) return;
+    const t = actx.currentTime;
+    mixer.master.gain.setTargetAtTime(volumes.master, t, 0.02);
+    for (const [kind, bus] of Object.entries(mixer.buses)) bus.gain.setTargetAtTime(volumes[kind] ?? 1, t, 0.02);
+  }
+  // Louder sounds briefly pull the blip bus down so they cut through typing
+  function duckBlips(seconds) {
+    const bus = mixer.buses.blip;
+    const t = actx.currentTime;
+    bus.gain.cancelScheduledValues(t);
+    bus.gain.setTargetAtTime(volumes.blip * 0.35, t, 0.01);
+    bus.gain.setTargetAtTime(volumes.blip, t + seconds, 0.08);
+  }
+  // Plays a kind through its configured style: the skin's sample or a synth preset
+  function playSound(kind, opts = {}) {
+    try {
+      const style = soundStyles[kind] || 'sample';
+      if (!audioUnlocked) {
+        waitForUnlock(kind, opts);
+        return;
+      }
+      if (style === 'sample' && !buffers[kind]) return;
+      if (actx && actx.state === 'suspended') {
+        actx.resume().catch(() => {});
+      }
+      if (!ensureMixer()) return;
+      // MIDI notes are relative to C5, the pitch samples and synth presets play at by default
+      const pitch = typeof opts.note === 'number'
+        ? Math.max(0.25, Math.min(4.0, Math.pow(2, (opts.note - 72) / 12)))
+        : typeof opts.playbackRate === 'number' ? Math.max(0.5, Math.min(3.0, opts.playbackRate)) : 1;
+      // Rapid repeats share headroom: drop the oldest voice past the cap and scale new ones down
+      const active = voices[kind];
+      while (active.length >= MAX_VOICES) {
+        try { active.shift().stop(); } catch {}
+      }
+      const gain = actx.createGain();
+      gain.gain.value = 1 / Math.sqrt(1 + active.length);
+      gain.connect(mixer.buses[kind]);
+
+      let voice, duration;
+      if (style === 'sample') {
+        const src = actx.createBufferSource();
+        src.buffer = buffers[kind];
+        src.playbackRate.value = pitch;
+        src.connect(gain);
+        src.start();
+        voice = src;
+        duration = src.buffer.duration / pitch;
+      } else {
+        voice = window.rcSynth && window.rcSynth.play(actx, gain, style, { pitch });
+        if (!voice) return;
+        duration = voice.duration;
+      }
+      active.push(voice);
+      setTimeout(() => {
+        const i = active.indexOf(voice);
+        if (i >= 0) active.splice(i, 1);
+      }, duration * 1000 + 50);
+      if (kind !== 'blip') duckBlips(Math.min(1.5, duration));
+    } catch {}
+  }
+
+  // Musical mode: play a phrase of MIDI notes, together or spread out in time
+  function playNotes(kind, notes, spread) {
+    notes.forEach((note, i) => {
+      const delay = (spread || 0) * i * 1000;
+      if (delay) setTimeout(() => playSound(kind, { note }), delay);
+      else playSound(kind, { note });
+    });
+  }
+
+  function handle(msg) {
+    switch (msg.type) {
+      case "blip":
+        if (msg.enabled && msg.notes) playNotes('blip', msg.notes, msg.spread);
+        else if (msg.enabled) playSound('blip', { playbackRate: msg.pitch ?? 1.0 });
+        break;
+      case "boom":
+        if (msg.enabled && msg.notes) playNotes('boom', msg.notes, msg.spread);
+        else if (msg.enabled) playSound('boom');
+        break;
+      case "fireworks":
+        if (msg.enabled) playSound('fireworks');
+        break;
+      case "sounds":
+        preloadSounds(msg.soundUris);
+        break;
+      case "mixer":
+        Object.assign(volumes, msg.volumes);
+        Object.assign(soundStyles, msg.styles);
+        mutedUntil = msg.mutedUntil;
+        applyVolumes();
+        break;
+    }
+  }
+
+  // Unlock audio on interaction; kept until it works since a blocked resume can fail
+  document.addEventListener('click', unlockAudio);
+  document.addEventListener('keydown', unlockAudio);
+
+  window.rcAudio = {
+    handle,
+    play: playSound,
+    get volumes() { return volumes; },
+    get muted() { return mutedUntil > Date.now(); },
+    // Live slider preview before the new level is persisted
+    setVolume(channel, value) {
+      volumes[channel] = value;
+      applyVolumes();
+    },
+    setStyle(kind, style) {
+      soundStyles[kind] = style;
+    }
+  };
+})();
@@ -9,65 +9,70 @@
     sound: document.getElementById("sound"),
     fireworks: document.getElementById("fireworks"),
     reducedEffects: document.getElementById("reducedEffects"),
+    combo: document.getElementById("combo"),
+    shakeProfiles: document.querySelectorAll("select[data-kind]"),
+    shakePreviews: document.querySelectorAll("button[data-preview]"),
+    shakeIntensity: document.getElementById("shakeIntensity"),
+    volumeSliders: document.querySelectorAll("input[data-channel]"),
+    soundStyles: document.querySelectorAll("select[data-sound-style]"),
+    muteLabel: document.getElementById("muteLabel"),
+    muteBtn: document.getElementById("muteBtn"),
+    unmuteBtn: document.getElementById("unmuteBtn"),
+    comboLabel: document.getElementById("comboLabel"),
+    comboMultiplier: document.getElementById("comboMultiplier"),
+    comboCallout: document.getElementById("comboCallout"),
+    achievements: document.getElementById("achievements"),
+    milestones: document.getElementById("milestones"),
+    quests: document.getElementById("quests"),
+    sessionStatus: document.getElementById("sessionStatus"),
+    sessionBtn: document.getElementById("sessionBtn"),
+    sessionLive: document.getElementById("sessionLive"),
+    sessionSummary: document.getElementById("sessionSummary"),
+    sessions: document.getElementById("sessions"),
+    achievementCount: document.getElementById("achievementCount"),
+    range7: document.getElementById("range7"),
+    range30: document.getElementById("range30"),
+    chart: document.getElementById("chart"),
+    chartSummary: document.getElementById("chartSummary"),
+    heatmap: document.getElementById("heatmap"),
+    languageSkills: document.getElementById("languageSkills"),
+    workspaceSkills: document.getElementById("workspaceSkills"),
     levelLabel: document.getElementById("levelLabel"),
     xpLabel: document.getElementById("xpLabel"),
     barInner: document.getElementById("barInner"),
     resetBtn: document.getElementById("resetBtn"),
+    prestigeBtn: document.getElementById("prestigeBtn"),
+    prestigeBadge: document.getElementById("prestigeBadge"),
     testFireworks: document.getElementById("testFireworks"),
     fwCanvas: document.getElementById("fwCanvas")
   };
 
-  // WebAudio engine using decoded WAV buffers
-  const AudioCtx = window.AudioContext || window.webkitAudioContext;
-  let actx = null;
-  const buffers = { blip: null, boom: null, fireworks: null };
-  let audioUnlocked = false;
-  async function fetchArrayBuffer(url) {
-    const res = await fetch(url);
-    return await res.arrayBuffer();
-  }
-  async function preloadSounds(uris) {
-    try {
-      actx = actx || new AudioCtx();
-      const entries = Object.entries(uris);
-      for (const [k, u] of entries) {
-        const ab = await fetchArrayBuffer(u);
-        buffers[k] = await actx.decodeAudioData(ab);
-      }
-    } catch {}
-  }
-  async function unlockAudio() {
-    if (audioUnlocked) return;
-    try {
-      actx = actx || new AudioCtx();
-      if (actx.state === 'suspended') await actx.resume();
-      audioUnlocked = true;
-      const n = document.getElementById('soundNotice');
-      if (n) n.remove();
-    } catch {}
-  }
-  function playWav(kind, opts = {}) {
-    try {
-      if (!audioUnlocked || !buffers[kind]) return;
-      if (actx && actx.state === 'suspended') {
-        actx.resume().catch(() => {});
-      }
-      const src = actx.createBufferSource();
-      src.buffer = buffers[kind];
-      if (opts.playbackRate && typeof opts.playbackRate === 'number') {
-        src.playbackRate.value = Math.max(0.5, Math.min(3.0, opts.playbackRate));
-      }
-      const gain = actx.createGain();
-      gain.gain.value = 0.5;
-      src.connect(gain).connect(actx.destination);
-      src.start();
-    } catch {}
+  const audio = window.rcAudio;
+
+  function setMixer(msg) {
+    const volumes = audio.volumes;
+    els.volumeSliders.forEach(slider => {
+      const ch = slider.dataset.channel;
+      const pct = Math.round((volumes[ch] ?? 0) * 100);
+      // Don't fight the user while they drag
+      if (document.activeElement !== slider) slider.value = String(pct);
+      const label = document.querySelector(`[data-volume-label="${ch}"]`);
+      if (label) label.textContent = `${pct}%`;
+    });
+    els.soundStyles.forEach(select => { select.value = msg.styles[select.dataset.soundStyle]; });
+    const muted = audio.muted;
+    els.muteLabel.textContent = muted
+      ? `Muted until ${new Date(msg.mutedUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+      : "";
+    els.muteBtn.classList.toggle("hidden", muted);
+    els.unmuteBtn.classList.toggle("hidden", !muted);
   }
 
   // Fireworks particles on canvas
   const fw = {
     running: false,
     particles: [],
+    palette: [],
     start() {
       const canvas = els.fwCanvas;
       canvas.classList.remove("hidden");
@@ -81,7 +86,9 @@
           vx: (Math.random() - 0.5) * 6,
           vy: -Math.random() * 8 - 4,
           life: 60 + Math.random() * 30,
-          color: `hsl(${Math.random() * 360}, 90%, 60%)`
+          color: this.palette.length
+            ? this.palette[Math.floor(Math.random() * this.palette.length)]
+            : `hsl(${Math.random() * 360}, 90%, 60%)`
         });
       }
       this.running = true;
@@ -110,16 +117,55 @@
   };
 
   // Wire toggles
-  ["explosions", "blips", "chars", "shake", "sound", "fireworks", "reducedEffects"].forEach(key => {
+  ["explosions", "blips", "chars", "shake", "sound", "fireworks", "reducedEffects", "combo"].forEach(key => {
     els[key].addEventListener("change", () => {
       vscode.postMessage({ type: "toggle", key, value: els[key].checked });
     });
   });
 
+  // Shake profiles per effect kind, with a preview in the active editor
+  els.shakeProfiles.forEach(select => {
+    select.addEventListener("change", () => {
+      vscode.postMessage({ type: "setShakeProfile", kind: select.dataset.kind, profile: select.value });
+    });
+  });
+  els.shakePreviews.forEach(btn => {
+    btn.addEventListener("click", () => vscode.postMessage({ type: "previewShake", kind: btn.dataset.preview }));
+  });
+  els.shakeIntensity.addEventListener("change", () => {
+    vscode.postMessage({ type: "setShakeIntensity", intensity: els.shakeIntensity.value });
+  });
+
+  // Volume sliders: live preview locally, persist on release
+  els.volumeSliders.forEach(slider => {
+    const ch = slider.dataset.channel;
+    slider.addEventListener("input", () => {
+      audio.setVolume(ch, Number(slider.value) / 100);
+      const label = document.querySelector(`[data-volume-label="${ch}"]`);
+      if (label) label.textContent = `${slider.value}%`;
+    });
+    slider.addEventListener("change", () => {
+      vscode.postMessage({ type: "setVolume", channel: ch, value: Number(slider.value) / 100 });
+      if (!audio.muted) audio.play(ch === "master" ? "blip" : ch);
+    });
+  });
+  els.soundStyles.forEach(select => {
+    const kind = select.dataset.soundStyle;
+    select.addEventListener("change", () => {
+      audio.setStyle(kind, select.value);
+      vscode.postMessage({ type: "setSoundStyle", kind, style: select.value });
+      if (!audio.muted) audio.play(kind);
+    });
+  });
+  els.sessionBtn.addEventListener("click", () => vscode.postMessage({ type: session ? "stopSession" : "startSession" }));
+  els.muteBtn.addEventListener("click", () => vscode.postMessage({ type: "mute", minutes: 15 }));
+  els.unmuteBtn.addEventListener("click", () => vscode.postMessage({ type: "unmute" }));
+
   els.resetBtn.addEventListener("click", () => vscode.postMessage({ type: "resetXp" }));
+  els.prestigeBtn.addEventListener("click", () => vscode.postMessage({ type: "prestige" }));
   els.testFireworks.addEventListener("click", () => {
     // Play sound if enabled (same as real fireworks)
-    if (els.sound.checked) playBeep(0.5);
+    if (els.sound.checked && !audio.muted) audio.play('fireworks');
     fw.start();
   });
 
@@ -132,6 +178,249 @@
     els.barInner.style.width = `${pct}%`;
   }
 
+  let calloutTimer = null;
+  function setPrestige({ count, multiplier, tier, canPrestige, minLevel }) {
+    fw.palette = tier.palette;
+    els.prestigeBadge.classList.toggle("hidden", count === 0);
+    els.prestigeBadge.textContent = `${tier.badge} ${tier.name} · P${count} · ${multiplier.toFixed(1)}× XP`;
+    els.prestigeBtn.disabled = !canPrestige;
+    els.prestigeBtn.title = canPrestige ? "Reset your level for a permanent XP bonus" : `Reach level ${minLevel} to prestige`;
+  }
+
+  function setCombo({ count, multiplier, milestone }) {
+    els.comboLabel.textContent = `Combo x${count}`;
+    els.comboLabel.classList.toggle("active", count > 1);
+    els.comboMultiplier.textContent = `${multiplier.toFixed(1)}× XP`;
+    if (milestone) {
+      els.comboCallout.textContent = `x${milestone} COMBO!`;
+      els.comboCallout.classList.remove("hidden");
+      if (calloutTimer) clearTimeout(calloutTimer);
+      calloutTimer = setTimeout(() => els.comboCallout.classList.add("hidden"), 1500);
+    }
+  }
+
+  function setAchievements(items) {
+    els.achievements.replaceChildren(...items.map(a => {
+      const tile = document.createElement("div");
+      tile.className = a.unlockedAt ? "achievement unlocked" : "achievement locked";
+      tile.title = a.unlockedAt
+        ? `${a.description}\nUnlocked ${new Date(a.unlockedAt).toLocaleDateString()}`
+        : a.description;
+      const icon = document.createElement("div");
+      icon.className = "achievement-icon";
+      icon.textContent = a.unlockedAt ? a.icon : "🔒";
+      const name = document.createElement("div");
+      name.className = "achievement-title";
+      name.textContent = a.title;
+      tile.append(icon, name);
+      return tile;
+    }));
+    const unlocked = items.filter(a => a.unlockedAt).length;
+    els.achievementCount.textContent = `${unlocked}/${items.length}`;
+  }
+
+  // Finished tasks, test tasks, debug sessions and save milestones, newest first
+  const MILESTONE_LABELS = { task: "Task", test: "Tests", debug: "Debug session", save: "Saves" };
+  function setMilestones(items) {
+    if (!items.length) {
+      const empty = document.createElement("div");
+      empty.className = "muted";
+      empty.textContent = "Run a task, tests or a debug session, or keep saving, to earn XP";
+      els.milestones.replaceChildren(empty);
+      return;
+    }
+    els.milestones.replaceChildren(...items.slice(0, 8).map(m => {
+      const row = document.createElement("div");
+      row.className = `milestone ${m.success ? "passed" : "failed"}`;
+      row.title = new Date(m.at).toLocaleString();
+      const icon = document.createElement("span");
+      icon.textContent = m.recovered ? "🟢" : m.kind === "save" ? "💾" : m.success ? "✅" : "❌";
+      const name = document.createElement("span");
+      name.className = "milestone-name";
+      name.textContent = `${MILESTONE_LABELS[m.kind] ?? m.kind}: ${m.name}`;
+      const xp = document.createElement("span");
+      xp.className = "muted";
+      xp.textContent = m.xp > 0 ? `+${m.xp} XP` : m.success ? "" : "failed";
+      row.append(icon, name, xp);
+      return row;
+    }));
+  }
+
+  // Focus session; the countdown ticks locally from phaseEndsAt
+  let session;
+  let sessionTimer;
+  function clock(ms) {
+    const secs = Math.max(0, Math.ceil(ms / 1000));
+    return `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, "0")}`;
+  }
+  function sessionTotals(s) {
+    return `${s.xp} XP · ${s.chars} chars · ${s.deletes} deletes · best combo x${s.bestCombo}`;
+  }
+  function renderSessionClock() {
+    els.sessionStatus.textContent = session
+      ? `${session.phase === "focus" ? "🎯 Focus" : "☕ Break"} ${session.round}/${session.rounds} — ${clock(session.phaseEndsAt - Date.now())}`
+      : "No session running";
+  }
+  function setSession(msg) {
+    session = msg.active;
+    els.sessionBtn.textContent = session ? "■ Stop" : "▶ Start";
+    els.sessionLive.classList.toggle("hidden", !session);
+    if (session) els.sessionLive.textContent = sessionTotals(session);
+    if (sessionTimer) clearInterval(sessionTimer);
+    sessionTimer = session ? setInterval(renderSessionClock, 1000) : undefined;
+    renderSessionClock();
+
+    if (session) els.sessionSummary.classList.add("hidden");
+    if (msg.summary) {
+      const s = msg.summary;
+      const title = document.createElement("div");
+      title.className = "session-summary-title";
+      title.textContent = s.completed ? "🎉 Session complete!" : "⏹ Session stopped";
+      const rounds = document.createElement("div");
+      rounds.textContent = `${s.completedRounds}/${s.rounds} rounds in ${Math.round((s.endedAt - s.startedAt) / 60000)} min`;
+      const totals = document.createElement("div");
+      totals.className = "muted";
+      totals.textContent = sessionTotals(s);
+      els.sessionSummary.replaceChildren(title, rounds, totals);
+      els.sessionSummary.classList.remove("hidden");
+    }
+
+    if (!msg.recent.length) {
+      const empty = document.createElement("div");
+      empty.className = "muted";
+      empty.textContent = "Finished sessions show up here";
+      els.sessions.replaceChildren(empty);
+      return;
+    }
+    els.sessions.replaceChildren(...msg.recent.slice(0, 5).map(s => {
+      const row = document.createElement("div");
+      row.className = "session";
+      row.title = sessionTotals(s);
+      const when = document.createElement("span");
+      when.textContent = `${s.completed ? "✅" : "⏹"} ${new Date(s.startedAt).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}`;
+      const detail = document.createElement("span");
+      detail.className = "muted";
+      detail.textContent = `${s.completedRounds}/${s.rounds} · ${s.xp} XP · x${s.bestCombo}`;
+      row.append(when, detail);
+      return row;
+    }));
+  }
+
+  // Daily and weekly quests with progress bars; completed ones stay until they rotate out
+  function setQuests(items) {
+    if (!items.length) {
+      const empty = document.createElement("div");
+      empty.className = "muted";
+      empty.textContent = "No quests right now";
+      els.quests.replaceChildren(empty);
+      return;
+    }
+    els.quests.replaceChildren(...items.map(q => {
+      const row = document.createElement("div");
+      row.className = q.completedAt ? "quest done" : "quest";
+      const hoursLeft = Math.max(0, Math.ceil((q.endsAt - Date.now()) / 3600000));
+      row.title = q.completedAt
+        ? `Completed ${new Date(q.completedAt).toLocaleString()}`
+        : `Ends in ${hoursLeft >= 24 ? `${Math.ceil(hoursLeft / 24)} days` : `${hoursLeft} h`}`;
+      const name = document.createElement("span");
+      name.className = "quest-name";
+      name.textContent = `${q.completedAt ? "✅" : q.period === "daily" ? "📅" : "🗓️"} ${q.title}`;
+      const reward = document.createElement("span");
+      reward.className = "muted";
+      reward.textContent = `${Math.floor(q.progress).toLocaleString()}/${q.target.toLocaleString()} · +${q.xp} XP`;
+      const bar = document.createElement("div");
+      bar.className = "bar skill-bar";
+      const inner = document.createElement("div");
+      inner.className = "bar-inner";
+      inner.style.width = `${Math.max(0, Math.min(100, (q.progress / Math.max(1, q.target)) * 100))}%`;
+      bar.append(inner);
+      row.append(name, reward, bar);
+      return row;
+    }));
+  }
+
+  function renderSkills(container, items) {
+    if (!items.length) {
+      const empty = document.createElement("div");
+      empty.className = "muted";
+      empty.textContent = "Start typing to build skills";
+      container.replaceChildren(empty);
+      return;
+    }
+    container.replaceChildren(...items.map(s => {
+      const row = document.createElement("div");
+      row.className = "skill";
+      row.title = `${s.xp} XP · ${s.chars} chars`;
+      const name = document.createElement("span");
+      name.className = "skill-name";
+      name.textContent = s.label;
+      const level = document.createElement("span");
+      level.className = "badge";
+      level.textContent = `Lv ${s.level}`;
+      const bar = document.createElement("div");
+      bar.className = "bar skill-bar";
+      const inner = document.createElement("div");
+      inner.className = "bar-inner";
+      inner.style.width = `${Math.max(0, Math.min(100, (s.current / Math.max(1, s.max)) * 100))}%`;
+      bar.append(inner);
+      row.append(name, level, bar);
+      return row;
+    }));
+  }
+
+  // Activity history: bar chart over the selected range and a yearly heatmap
+  let statsDays = [];
+  let chartRange = 7;
+  function describeDay(d) {
+    return `${d.date}\n${d.xp} XP · ${d.chars} chars · ${d.deletes} deletes · ${d.newlines} newlines · ${d.activeMinutes} active min`;
+  }
+  function renderChart() {
+    const days = statsDays.slice(-chartRange);
+    const max = Math.max(1, ...days.map(d => d.xp));
+    els.chart.replaceChildren(...days.map(d => {
+      const bar = document.createElement("div");
+      bar.className = "chart-bar";
+      bar.style.height = `${Math.max(2, (d.xp / max) * 100)}%`;
+      bar.title = describeDay(d);
+      return bar;
+    }));
+    const total = days.reduce((n, d) => n + d.xp, 0);
+    const minutes = days.reduce((n, d) => n + d.activeMinutes, 0);
+    els.chartSummary.textContent = `${total} XP · ${minutes} active minutes`;
+  }
+  function renderHeatmap() {
+    const cells = [];
+    // Pad so every column is one Sunday-to-Saturday week
+    const first = statsDays.length ? new Date(`${statsDays[0].date}T00:00:00`) : new Date();
+    for (let i = 0; i < first.getDay(); i++) {
+      const pad = document.createElement("div");
+      pad.className = "heat-cell empty";
+      cells.push(pad);
+    }
+    const max = Math.max(1, ...statsDays.map(d => d.xp));
+    for (const d of statsDays) {
+      const cell = document.createElement("div");
+      const level = d.xp ? Math.min(4, Math.ceil((d.xp / max) * 4)) : 0;
+      cell.className = `heat-cell l${level}`;
+      cell.title = describeDay(d);
+      cells.push(cell);
+    }
+    els.heatmap.replaceChildren(...cells);
+  }
+  function setStats(days) {
+    statsDays = days;
+    renderChart();
+    renderHeatmap();
+  }
+  [els.range7, els.range30].forEach(btn => {
+    btn.addEventListener("click", () => {
+      chartRange = Number(btn.dataset.days);
+      els.range7.classList.toggle("active", btn === els.range7);
+      els.range30.classList.toggle("active", btn === els.range30);
+      renderChart();
+    });
+  });
+
   window.addEventListener("message", e => {
     const msg = e.data;
     switch (msg.type) {
@@ -144,25 +433,53 @@
         els.sound.checked = msg.settings.sound;
         els.fireworks.checked = msg.settings.fireworks;
         els.reducedEffects.checked = msg.settings.reducedEffects;
-  preloadSounds({ blip: msg.soundUris.blip, boom: msg.soundUris.boom, fireworks: msg.soundUris.fireworks });
-  // Unlock audio on first interaction
-  document.addEventListener('click', unlockAudio, { once: true });
-  document.addEventListener('keydown', unlockAudio, { once: true });
+        els.combo.checked = msg.settings.combo;
+        els.shakeProfiles.forEach(select => { select.value = msg.settings.shakeProfiles[select.dataset.kind]; });
+        els.shakeIntensity.value = msg.settings.shakeIntensity;
+        audio.handle({ type: "sounds", soundUris: msg.soundUris });
         setState(msg);
         break;
       case "state":
         setState(msg);
         break;
       case "blip":
-        if (msg.enabled) playWav('blip', { playbackRate: msg.pitch ?? 1.0 });
-        break;
       case "boom":
-        if (msg.enabled) playWav('boom');
+      case "sounds":
+        audio.handle(msg);
         break;
       case "fireworks":
-        if (msg.enabled) playWav('fireworks');
+        audio.handle(msg);
         fw.start();
         break;
+      case "combo":
+        setCombo(msg);
+        break;
+      case "prestige":
+        setPrestige(msg);
+        break;
+      case "mixer":
+        audio.handle(msg);
+        setMixer(msg);
+        break;
+      case "achievements":
+        setAchievements(msg.items);
+        break;
+      case "milestones":
+        setMilestones(msg.items);
+        break;
+      case "quests":
+        setQuests(msg.items);
+        break;
+      case "session":
+        setSession(msg);
+        break;
+      case "stats":
+        setStats(msg.days);
+        break;
+      case "skills":
+        renderSkills(els.languageSkills, msg.languages);
+        renderSkills(els.workspaceSkills, msg.workspaces);
+        break;
     }
   });
 
@@ -0,0 +1,87 @@
+// Procedural sound presets built from oscillators, noise and envelopes.
+// Exposes window.rcSynth.play(actx, destination, preset, opts) -> { duration, stop() }
+(function () {
+  let noiseBuffer = null;
+
+  function getNoise(actx) {
+    if (noiseBuffer && noiseBuffer.sampleRate === actx.sampleRate) return noiseBuffer;
+    const length = Math.floor(actx.sampleRate * 1.0);
+    noiseBuffer = actx.createBuffer(1, length, actx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+    return noiseBuffer;
+  }
+
+  // Attack/decay envelope on a fresh gain node
+  function envelope(actx, dest, t, attack, decay, peak) {
+    const g = actx.createGain();
+    g.gain.setValueAtTime(0.0001, t);
+    g.gain.exponentialRampToValueAtTime(peak, t + attack);
+    g.gain.exponentialRampToValueAtTime(0.0001, t + attack + decay);
+    g.connect(dest);
+    return g;
+  }
+
+  function tone(actx, dest, type, freq, t, attack, decay, peak, endFreq) {
+    const osc = actx.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(freq, t);
+    if (endFreq) osc.frequency.exponentialRampToValueAtTime(endFreq, t + attack + decay);
+    osc.connect(envelope(actx, dest, t, attack, decay, peak));
+    osc.start(t);
+    osc.stop(t + attack + decay + 0.02);
+    return osc;
+  }
+
+  const presets = {
+    // Short square-wave blip with a tiny downward chirp
+    chiptune(actx, dest, t, pitch) {
+      const f = 880 * pitch;
+      tone(actx, dest, "square", f, t, 0.003, 0.07, 0.35, f * 0.8);
+      return 0.08;
+    },
+    // Filtered noise burst over a sinking square thump
+    explosion(actx, dest, t, pitch) {
+      const noise = actx.createBufferSource();
+      noise.buffer = getNoise(actx);
+      const filter = actx.createBiquadFilter();
+      filter.type = "lowpass";
+      filter.frequency.setValueAtTime(3000 * pitch, t);
+      filter.frequency.exponentialRampToValueAtTime(150, t + 0.45);
+      noise.connect(filter).connect(envelope(actx, dest, t, 0.005, 0.45, 0.8));
+      noise.start(t);
+      noise.stop(t + 0.5);
+      tone(actx, dest, "square", 110 * pitch, t, 0.005, 0.3, 0.4, 40);
+      return 0.5;
+    },
+    // Rising major arpeggio ending on a held octave
+    fanfare(actx, dest, t, pitch) {
+      const root = 523.25 * pitch; // C5
+      const steps = [1, 1.25, 1.5, 2];
+      steps.forEach((ratio, i) => {
+        const last = i === steps.length - 1;
+        tone(actx, dest, "square", root * ratio, t + i * 0.09, 0.005, last ? 0.45 : 0.08, 0.3);
+        tone(actx, dest, "triangle", root * ratio / 2, t + i * 0.09, 0.005, last ? 0.45 : 0.08, 0.25);
+      });
+      return steps.length * 0.09 + 0.45;
+    }
+  };
+
+  function play(actx, destination, preset, opts = {}) {
+    const build = presets[preset];
+    if (!build) return null;
+    const voice = actx.createGain();
+    voice.connect(destination);
+    const pitch = typeof opts.pitch === "number" ? Math.max(0.25, Math.min(4, opts.pitch)) : 1;
+    const duration = build(actx, voice, actx.currentTime, pitch);
+    return {
+      duration,
+      output: voice,
+      stop() {
+        try { voice.disconnect(); } catch {}
+      }
+    };
+  }
+
+  window.rcSynth = { play, presets: Object.keys(presets) };
+})();